@@ -0,0 +1,209 @@
+#!/usr/bin/env node
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import JSZip from "jszip";
+import {
+  extractWorkoutFromSinglePageJSON,
+  extractWorkoutsFromZip,
+  parseSinglePagePayloads,
+} from "../src/converter/extract";
+import { exportWorkout } from "../src/converter/export";
+import { DEFAULT_HR_ZONE_BOUNDS_PCT, parseHrZoneBounds } from "../src/converter/hrzones";
+import { DEFAULT_LAP_SPLIT_VALUES } from "../src/converter/laps";
+import { DEFAULT_EXPORT_SETTINGS } from "../src/converter/settings";
+import { browserTimeZone, isValidTimeZone } from "../src/converter/timezone";
+import type {
+  AthleteProfile,
+  ExportFormat,
+  HrResampling,
+  LapSplitMode,
+  LapSplitRule,
+  Workout,
+} from "../src/converter/types";
+
+const USAGE = `Usage: mywellness2tcx <export.zip | workouts.json> [options]
+
+JSON input may hold one payload, an array of payloads, or one payload per line.
+
+Options:
+  -f, --format <tcx|fit|gpx>  Output format (default: tcx)
+      --enhanced-fit         Write extra FIT messages for stricter importers
+      --fit-dev-fields       Keep all MyWellness metrics as FIT developer fields
+      --start-time <HH:MM>   Start time for JSON workouts (default: 12:00)
+      --time-zone <zone>     IANA zone of --start-time, e.g. Europe/Rome
+                             (default: system zone)
+      --laps <mode[:value]>  Split laps: none, time:<min>, distance:<m>,
+                             power:<W step> or hr:<bpm step> (default: none)
+      --hr-mode <mode>       HR between readings: linear, hold or gap-aware
+                             (default: linear)
+      --hr-max-gap <sec>     Longest HR gap filled in gap-aware mode (default: 30)
+      --meters-per-floor <m> Climb per floor on stair machines (default: 3)
+      --ftp <W>              Functional threshold power, for FIT IF/TSS
+      --threshold-hr <bpm>   Threshold heart rate, for FIT hrTSS without power
+      --max-hr <bpm>         Max heart rate; enables FIT HR zones and time in zone
+      --resting-hr <bpm>     Resting heart rate (needed for karvonen zones)
+      --hr-zone-method <m>   percent-max or karvonen (default: percent-max)
+      --hr-zones <list>      Lower bounds of zones 1-5 in percent
+                             (default: 50,60,70,80,90)
+  -o, --out-dir <dir>        Output directory (default: current directory)
+  -h, --help                 Show this help`;
+
+async function loadWorkouts(inputPath: string, startTime: string, timeZone: string): Promise<Workout[]> {
+  const data = await readFile(inputPath);
+
+  if (inputPath.toLowerCase().endsWith(".zip")) {
+    const zip = await JSZip.loadAsync(data);
+    const { activityFiles, workouts } = await extractWorkoutsFromZip(zip);
+    if (activityFiles.length === 0) {
+      throw new Error(
+        "Could not find indooractivities-*.json or outdooractivities-*.json in this ZIP. Make sure it’s a full MyWellness export.",
+      );
+    }
+    if (workouts.length === 0) {
+      throw new Error(
+        "Found activity files but couldn’t parse any workouts. The export schema may differ.",
+      );
+    }
+    return workouts;
+  }
+
+  let payloads: unknown[];
+  try {
+    payloads = parseSinglePagePayloads(data.toString("utf8"));
+  } catch (e: unknown) {
+    throw new Error(`Invalid JSON: ${e instanceof Error ? e.message : String(e)}`, { cause: e });
+  }
+  const workouts = payloads
+    .map((p) => extractWorkoutFromSinglePageJSON(p, startTime, timeZone))
+    .filter((w): w is Workout => w != null);
+  if (workouts.length === 0) {
+    throw new Error("Couldn’t find a supported single-workout payload in this JSON.");
+  }
+  return workouts;
+}
+
+function parseLapSplit(spec: string): LapSplitRule {
+  const [modeRaw, valueRaw] = spec.split(":");
+  const mode = modeRaw.trim().toLowerCase();
+  if (!Object.hasOwn(DEFAULT_LAP_SPLIT_VALUES, mode)) {
+    throw new Error(`Unsupported lap split "${spec}". Use none, time, distance, power or hr.`);
+  }
+  const value = valueRaw != null ? Number(valueRaw) : DEFAULT_LAP_SPLIT_VALUES[mode as LapSplitMode];
+  if (mode !== "none" && !(value > 0)) {
+    throw new Error(`Lap split value must be a positive number: "${spec}".`);
+  }
+  return { mode: mode as LapSplitMode, value };
+}
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: "string", short: "f", default: "tcx" },
+      "enhanced-fit": { type: "boolean", default: false },
+      "fit-dev-fields": { type: "boolean", default: false },
+      "start-time": { type: "string", default: "12:00" },
+      "time-zone": { type: "string", default: browserTimeZone() },
+      laps: { type: "string", default: "none" },
+      "hr-mode": { type: "string", default: DEFAULT_EXPORT_SETTINGS.hrResampling.mode },
+      "hr-max-gap": { type: "string", default: String(DEFAULT_EXPORT_SETTINGS.hrResampling.maxGapSec) },
+      "meters-per-floor": { type: "string", default: String(DEFAULT_EXPORT_SETTINGS.metersPerFloor) },
+      ftp: { type: "string" },
+      "threshold-hr": { type: "string" },
+      "max-hr": { type: "string" },
+      "resting-hr": { type: "string" },
+      "hr-zone-method": { type: "string", default: "percent-max" },
+      "hr-zones": { type: "string", default: DEFAULT_HR_ZONE_BOUNDS_PCT.join(",") },
+      "out-dir": { type: "string", short: "o", default: "." },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 1) {
+    throw new Error(`Expected exactly one input file.\n\n${USAGE}`);
+  }
+  if (values.format !== "tcx" && values.format !== "fit" && values.format !== "gpx") {
+    throw new Error(`Unsupported format "${values.format}". Use tcx, fit or gpx.`);
+  }
+
+  const hrMode = values["hr-mode"];
+  if (hrMode !== "linear" && hrMode !== "hold" && hrMode !== "gap-aware") {
+    throw new Error(`Unsupported HR mode "${hrMode}". Use linear, hold or gap-aware.`);
+  }
+  const hrResampling: HrResampling = { mode: hrMode, maxGapSec: Number(values["hr-max-gap"]) };
+  if (!(hrResampling.maxGapSec > 0)) {
+    throw new Error("--hr-max-gap must be a positive number of seconds.");
+  }
+
+  const metersPerFloor = Number(values["meters-per-floor"]);
+  if (!(metersPerFloor > 0)) {
+    throw new Error("--meters-per-floor must be a positive number of metres.");
+  }
+
+  const ftpW = values.ftp != null ? Number(values.ftp) : undefined;
+  if (ftpW != null && !(ftpW > 0)) {
+    throw new Error("--ftp must be a positive number of watts.");
+  }
+  const thresholdHr = values["threshold-hr"] != null ? Number(values["threshold-hr"]) : undefined;
+  if (thresholdHr != null && !(thresholdHr > 0)) {
+    throw new Error("--threshold-hr must be a positive number of bpm.");
+  }
+
+  const maxHr = values["max-hr"] != null ? Number(values["max-hr"]) : undefined;
+  if (maxHr != null && !(maxHr > 0)) {
+    throw new Error("--max-hr must be a positive number of bpm.");
+  }
+  const restingHr = values["resting-hr"] != null ? Number(values["resting-hr"]) : undefined;
+  if (restingHr != null && !(restingHr > 0)) {
+    throw new Error("--resting-hr must be a positive number of bpm.");
+  }
+  const hrZoneMethod = values["hr-zone-method"];
+  if (hrZoneMethod !== "percent-max" && hrZoneMethod !== "karvonen") {
+    throw new Error(`Unsupported HR zone method "${hrZoneMethod}". Use percent-max or karvonen.`);
+  }
+  if (hrZoneMethod === "karvonen" && maxHr != null && !(restingHr != null && restingHr < maxHr)) {
+    throw new Error("Karvonen zones need --resting-hr below --max-hr.");
+  }
+  const hrZoneBoundsPct = parseHrZoneBounds(values["hr-zones"]);
+  if (!hrZoneBoundsPct) {
+    throw new Error(`Invalid --hr-zones "${values["hr-zones"]}". Use increasing percentages, e.g. 50,60,70,80,90.`);
+  }
+  const athlete: AthleteProfile = { ftpW, thresholdHr, maxHr, restingHr, hrZoneMethod, hrZoneBoundsPct };
+
+  if (!isValidTimeZone(values["time-zone"])) {
+    throw new Error(`Unknown time zone "${values["time-zone"]}". Use an IANA name such as Europe/Rome.`);
+  }
+
+  const format: ExportFormat = values.format;
+  const outDir = values["out-dir"];
+  const settings = {
+    ...DEFAULT_EXPORT_SETTINGS,
+    enhancedFitCompatibility: values["enhanced-fit"],
+    lapSplit: parseLapSplit(values.laps),
+    hrResampling,
+    metersPerFloor,
+    fitDeveloperFields: values["fit-dev-fields"],
+    athlete,
+  };
+  const workouts = await loadWorkouts(positionals[0], values["start-time"], values["time-zone"]);
+
+  await mkdir(outDir, { recursive: true });
+  for (const w of workouts) {
+    const file = exportWorkout(w, format, settings);
+    const fname = path.join(outDir, file.fileName);
+    await writeFile(fname, typeof file.data === "string" ? file.data : new Uint8Array(file.data));
+    console.log(fname);
+  }
+  console.error(`Wrote ${workouts.length} ${format.toUpperCase()} file${workouts.length === 1 ? "" : "s"}.`);
+}
+
+main(process.argv.slice(2)).catch((err: unknown) => {
+  console.error(`mywellness2tcx: ${err instanceof Error ? err.message : String(err)}`);
+  process.exitCode = 1;
+});
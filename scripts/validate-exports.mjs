@@ -0,0 +1,218 @@
+import { readFile } from "node:fs/promises";
+import { XMLParser } from "fast-xml-parser";
+import JSZip from "jszip";
+import { createServer } from "vite";
+
+// Runs the real TCX/FIT/GPX encoders over the fixtures in scripts/fixtures and
+// parses the output back (see src/converter/roundtrip.ts), then checks
+// duplicate detection and the paste-into-ZIP-row merge. The TypeScript
+// sources are loaded through Vite's SSR loader, so no build step is needed.
+
+const FIXTURES = new URL("./fixtures/", import.meta.url);
+
+async function fixtureText(name) {
+  return readFile(new URL(name, FIXTURES), "utf8");
+}
+
+async function loadFixtureWorkouts(extract) {
+  // The ZIP fixture goes through the same path as a real MyWellness export.
+  const zip = new JSZip();
+  zip.file("export/indooractivities-1.json", await fixtureText("indooractivities-1.json"));
+  zip.file("export/masterdata-1.json", "[]");
+  const reloaded = await JSZip.loadAsync(await zip.generateAsync({ type: "uint8array" }));
+  const { workouts: zipWorkouts } = await extract.extractWorkoutsFromZip(reloaded);
+
+  const singlePage = [];
+  for (const name of ["single-page-bike.json", "single-page-rower.json"]) {
+    const w = extract.extractWorkoutFromSinglePageJSON(JSON.parse(await fixtureText(name)), "07:30", "Europe/Rome");
+    if (!w) throw new Error(`${name}: no workout extracted`);
+    singlePage.push(w);
+  }
+  return [...zipWorkouts, ...singlePage];
+}
+
+// Text that MyWellness or the user controls, with every XML special character
+// and a control character that XML cannot carry at all.
+const HOSTILE_NOTES = `Intervals <hard> & "easy" 'cool-down'\u0001`;
+
+function withHostileText(w) {
+  return {
+    ...w,
+    id: `${w.id}-escaping`,
+    activityName: "Bike & <Sprint>",
+    notes: HOSTILE_NOTES,
+    metrics: { ...w.metrics, "Watts<&>": 1 },
+    raw: { ...w.raw, equipmentType: "Bike & \"Co\"" },
+    exportOpts: { ...w.exportOpts, includeMetricsInNotes: true },
+  };
+}
+
+function checkEscaping(w, workoutToTCX) {
+  const xml = workoutToTCX(w, w.exportOpts);
+  const doc = new XMLParser({ ignoreAttributes: false }).parse(xml);
+  const activity = doc.TrainingCenterDatabase.Activities.Activity;
+  const expectedNotes = `${HOSTILE_NOTES.replace("\u0001", "")}\nMywellness metrics: ${Object.entries(w.metrics)
+    .map(([k, v]) => `${k}=${v}`)
+    .join(", ")}`;
+  if (activity.Notes !== expectedNotes) throw new Error(`TCX notes did not round-trip: ${JSON.stringify(activity.Notes)}`);
+  if (activity.Creator.Name !== "Technogym Bike & \"Co\"") {
+    throw new Error(`TCX creator did not round-trip: ${JSON.stringify(activity.Creator.Name)}`);
+  }
+  console.log(`[ok] ${w.id}: notes and creator round-trip`);
+}
+
+function checkGpxEscaping(w, workoutToGPX) {
+  const doc = new XMLParser().parse(workoutToGPX(w, w.exportOpts));
+  const track = doc.gpx.trk;
+  if (track.name !== w.activityName) throw new Error(`GPX name did not round-trip: ${JSON.stringify(track.name)}`);
+  if (track.desc !== HOSTILE_NOTES.replace("\u0001", "")) {
+    throw new Error(`GPX description did not round-trip: ${JSON.stringify(track.desc)}`);
+  }
+  console.log(`[ok] ${w.id}: GPX name and description round-trip`);
+}
+
+// The schema check must reject what the encoder must never write.
+function checkSchemaCheckRejects(w, workoutToTCX, checkTcxSchema) {
+  const xml = workoutToTCX(w, w.exportOpts);
+  const broken = {
+    "Calories before DistanceMeters": xml.replace(
+      /(<DistanceMeters>[^<]*<\/DistanceMeters>)([\s\S]*?)(<Calories>[^<]*<\/Calories>)/,
+      "$3$2$1",
+    ),
+    "missing Intensity": xml.replace(/\s*<Intensity>Active<\/Intensity>/, ""),
+    "zero heart rate": xml.replace(/<Value>\d+<\/Value>/, "<Value>0</Value>"),
+    "Creator without xsi:type": xml.replace(' xsi:type="Device_t"', ""),
+  };
+  for (const [label, doc] of Object.entries(broken)) {
+    if (doc === xml) throw new Error(`schema self-test "${label}": fixture did not change`);
+    if (!checkTcxSchema(doc).length) throw new Error(`schema check accepted TCX with ${label}`);
+  }
+  console.log(`[ok] schema check rejects ${Object.keys(broken).length} broken documents`);
+}
+
+// A MyWellness ZIP item (`indooractivities-*.json`) run through the extractor.
+function zipRow(extract, id, on, activityName, durationSec, calories) {
+  const pr = [{ n: "Duration", v: durationSec }, { n: "Calories", v: calories }];
+  return extract.extractWorkoutsFromIndoorJSON([{ id, on, activityName, performedData: { pr } }])[0];
+}
+
+function expect(ok, message) {
+  if (!ok) throw new Error(`dedupe: ${message}`);
+}
+
+// Duplicate detection and the paste-into-ZIP-row merge (src/converter/dedupe.ts).
+async function checkDedupe(extract, dedupe) {
+  // Overlapping exports: the same items in a second file, in another order.
+  const zip = new JSZip();
+  zip.file("export/indooractivities-1.json", await fixtureText("indooractivities-1.json"));
+  zip.file("export/indooractivities-2.json", await fixtureText("indooractivities-2.json"));
+  const { workouts: overlapping } = await extract.extractWorkoutsFromZip(zip);
+  const groups = dedupe.findDuplicateGroups(overlapping);
+  const groupIds = groups.map((g) => g.uids.map((uid) => overlapping.find((w) => w.uid === uid).id));
+  expect(
+    groups.length === 2 && groupIds.every((ids) => ids.length === 2 && ids[0] === ids[1]),
+    `overlapping ZIP files gave groups ${JSON.stringify(groupIds)}`,
+  );
+
+  // The bike payload is dated 2026-02-13 and starts at 07:30 Rome (06:30 UTC): 10:00, 120 kcal.
+  const payload = JSON.parse(await fixtureText("single-page-bike.json"));
+  const detail = extract.extractWorkoutFromSinglePageJSON(payload, "07:30", "Europe/Rome");
+  const bikeRow = zipRow(extract, "z-bike", "2026-02-13T06:31:00Z", "Bike Excite", 600, 118);
+  expect(dedupe.findSummaryMatch(detail, [bikeRow]) === bikeRow, "matching paste found no ZIP row");
+  const merged = dedupe.mergeDetailIntoSummary(bikeRow, detail);
+  expect(
+    merged.uid === bikeRow.uid && merged.startedAtISO === "2026-02-13T06:31:00Z" && merged.series?.length > 0,
+    `merged row ${merged.uid} starts ${merged.startedAtISO} with ${merged.series?.length ?? 0} samples`,
+  );
+
+  // Same day, length and calories, but a treadmill run: neither merged nor grouped.
+  const runRow = zipRow(extract, "z-run", "2026-02-13T06:31:00Z", "Run Excite", 600, 118);
+  expect(dedupe.findSummaryMatch(detail, [runRow]) == null, "bike paste matched a run row");
+  expect(dedupe.findDuplicateGroups([runRow, detail]).length === 0, "bike paste grouped with a run row");
+  // Two bike rows that day: no guess.
+  const eveningRow = zipRow(extract, "z-bike-2", "2026-02-13T17:00:00Z", "Bike Excite", 620, 125);
+  expect(dedupe.findSummaryMatch(detail, [bikeRow, eveningRow]) == null, "merged into one of two candidate rows");
+  // A ZIP id equal to the payload id is no evidence across sources.
+  const sameIdRow = zipRow(extract, detail.id, "2026-02-13T06:31:00Z", "Run Excite", 1800, 300);
+  expect(dedupe.findDuplicateGroups([sameIdRow, detail]).length === 0, "ZIP and paste grouped by id alone");
+
+  // 00:30 in Auckland on 2026-02-13 is 11:30 UTC on 2026-02-12; the day is
+  // compared in Auckland whatever zone this process runs in.
+  const lateDetail = extract.extractWorkoutFromSinglePageJSON(payload, "00:30", "Pacific/Auckland");
+  const sameDayRow = zipRow(extract, "z-nz", "2026-02-13T10:00:00Z", "Bike Excite", 600, 120);
+  const nextDayRow = zipRow(extract, "z-nz-2", "2026-02-13T11:30:00Z", "Bike Excite", 600, 120);
+  expect(dedupe.findSummaryMatch(lateDetail, [sameDayRow]) === sameDayRow, "missed the row on the pasted day");
+  expect(dedupe.findSummaryMatch(lateDetail, [nextDayRow]) == null, "matched a row on the next day in the pasted zone");
+  console.log("[ok] dedupe: overlapping ZIP files group, a matching paste merges, other activities and days stay apart");
+}
+
+async function main() {
+  const server = await createServer({
+    configFile: false,
+    logLevel: "error",
+    appType: "custom",
+    server: { middlewareMode: true, hmr: false },
+  });
+  try {
+    const extract = await server.ssrLoadModule("/src/converter/extract.ts");
+    const { roundTripChecks, formatRoundTrip } = await server.ssrLoadModule("/src/converter/roundtrip.ts");
+    const { DEFAULT_EXPORT_SETTINGS } = await server.ssrLoadModule("/src/converter/settings.ts");
+    const { workoutToTCX } = await server.ssrLoadModule("/src/converter/tcx.ts");
+    const { workoutToGPX } = await server.ssrLoadModule("/src/converter/gpx.ts");
+    const { checkTcxSchema } = await server.ssrLoadModule("/src/converter/tcxschema.ts");
+    const dedupe = await server.ssrLoadModule("/src/converter/dedupe.ts");
+
+    const settingsCases = [
+      ["defaults", DEFAULT_EXPORT_SETTINGS],
+      // One lap, so the FIT session and the TCX lap carry the same average HR.
+      ["gap-aware", { ...DEFAULT_EXPORT_SETTINGS, hrResampling: { mode: "gap-aware", maxGapSec: 30 } }],
+      [
+        "laps+gap-aware+ftp+karvonen",
+        {
+          ...DEFAULT_EXPORT_SETTINGS,
+          lapSplit: { mode: "time", value: 2 },
+          hrResampling: { mode: "gap-aware", maxGapSec: 30 },
+          athlete: { ftpW: 200, thresholdHr: 160, maxHr: 190, restingHr: 60, hrZoneMethod: "karvonen" },
+        },
+      ],
+      [
+        "enhanced+dev-fields+hr-zones",
+        {
+          ...DEFAULT_EXPORT_SETTINGS,
+          enhancedFitCompatibility: true,
+          fitDeveloperFields: true,
+          athlete: { maxHr: 185 },
+        },
+      ],
+    ];
+
+    const fixtures = await loadFixtureWorkouts(extract);
+    if (fixtures.length < 5) throw new Error(`expected 5 fixture workouts, got ${fixtures.length}`);
+    const hostile = withHostileText(fixtures.find((w) => w.id === "fx-sp-bike"));
+    const workouts = [...fixtures, hostile];
+
+    let failures = 0;
+    for (const w of workouts) {
+      for (const [label, settings] of settingsCases) {
+        const checks = await roundTripChecks(w, settings);
+        const failed = checks.filter((c) => !c.ok);
+        failures += failed.length;
+        console.log(`[${failed.length ? "FAIL" : "ok"}] ${w.id} (${label}): ${checks.length - failed.length}/${checks.length} checks`);
+        if (failed.length) console.log(formatRoundTrip(failed).replace(/^/gm, "    "));
+      }
+    }
+    checkEscaping(hostile, workoutToTCX);
+    checkGpxEscaping(hostile, workoutToGPX);
+    await checkDedupe(extract, dedupe);
+    checkSchemaCheckRejects(fixtures.find((w) => w.id === "fx-sp-bike"), workoutToTCX, checkTcxSchema);
+    if (failures) throw new Error(`${failures} check${failures === 1 ? "" : "s"} failed`);
+    console.log("Export round-trip checks passed.");
+  } finally {
+    await server.close();
+  }
+}
+
+main().catch((err) => {
+  console.error("Export validation failed:", err?.message ?? err);
+  process.exitCode = 1;
+});
@@ -1,145 +1,69 @@
 import { Fragment, useMemo, useRef, useState } from "react";
-import type { CSSProperties } from "react";
+import type { CSSProperties, Dispatch, SetStateAction } from "react";
 import JSZip from "jszip";
-import { FitWriter } from "@markw65/fit-file-writer";
-
-type WorkoutExportOpts = {
-  includeHrSeries: boolean;
-  includeCadenceSeries: boolean;
-  includePowerSeries: boolean;
-  includeMetricsInNotes: boolean;
-  includeCalories: boolean;
-  includeDistance: boolean;
-  includeVerticalAsAltitude: boolean;
-};
-
-type Workout = {
-  uid: string;
-  source: "indoor" | "outdoor";
-  id: string;
-  startedAtISO?: string;
-  startedAtDisplay: string;
-  activityName: string;
-
-  durationSec?: number;
-  calories?: number;
-  distanceM?: number;
-  // Mywellness exports use different keys:
-  // - indoor stair: "Floors" behaves like vertical metres
-  // - outdoor: "Elevation" is vertical metres
-  verticalM?: number;
-  cadenceSpm?: number;
-
-  exportOpts: WorkoutExportOpts;
-
-  // schema-inspector
-  metrics: Record<string, number>;
-  metricKeys: string[];
-  series?: SeriesPoint[];
-
-  raw: unknown;
-};
-
-type SeriesPoint = {
-  tSec: number;
-  hr?: number;
-  watts?: number;
-  cadence?: number;
-  verticalM?: number;
-};
+import { loadAthleteProfile, saveAthleteProfile } from "./athleteProfile";
+import {
+  applyStartTime,
+  extractWorkoutFromSinglePageJSON,
+  extractWorkoutsFromZip,
+  parseSinglePagePayloads,
+} from "./converter/extract";
+import { computeDiagnostics, DEFAULT_DIAGNOSTICS_GAP_SEC, formatDiagnostics } from "./converter/diagnostics";
+import { exportWorkout } from "./converter/export";
+import { formatDateHuman, formatDuration } from "./converter/format";
+import {
+  DEFAULT_HR_ZONE_BOUNDS_PCT,
+  HR_ZONE_METHOD_LABELS,
+  hrZoneHighBpm,
+  hrZoneRange,
+  parseHrZoneBounds,
+  workoutTimeInHrZones,
+} from "./converter/hrzones";
+import type { HrZoneTimes } from "./converter/hrzones";
+import { findDuplicateGroups, findSummaryMatch, mergeDetailIntoSummary } from "./converter/dedupe";
+import type { DuplicateGroup } from "./converter/dedupe";
+import { DEFAULT_LAP_SPLIT_VALUES } from "./converter/laps";
+import { hasSampledSeries, workoutVerticalM } from "./converter/records";
+import { DEFAULT_EXPORT_SETTINGS } from "./converter/settings";
+import { DEFAULT_SPORT_RULES, resolveSport, SPORT_PRESETS, sportLabel } from "./converter/sport";
+import { browserTimeZone, formatInTimeZone, listTimeZones } from "./converter/timezone";
+import { ledgerKey, loadLedger, mergeLedgers, parseLedger, recordExports, saveLedger, serializeLedger } from "./ledger";
+import type { ExportLedger } from "./ledger";
+import SeriesChart from "./SeriesChart";
+import { loadUserSportRules, saveUserSportRules } from "./sportRules";
+import SportRulesPanel from "./SportRulesPanel";
+import type {
+  AthleteProfile,
+  ExportFormat,
+  ExportSettings,
+  HrResampleMode,
+  HrResampling,
+  HrZoneMethod,
+  LapSplitMode,
+  LapSplitRule,
+  SportRule,
+  Workout,
+  WorkoutExportOpts,
+  WorkoutSport,
+} from "./converter/types";
 
 type ImportMode = "zip" | "json";
-type ExportFormat = "tcx" | "fit";
-
-function safeNumber(v: unknown): number | undefined {
-  const n = typeof v === "number" ? v : typeof v === "string" ? Number(v) : NaN;
-  return Number.isFinite(n) ? n : undefined;
-}
-
-function asRecord(v: unknown): Record<string, unknown> | undefined {
-  if (v && typeof v === "object" && !Array.isArray(v)) {
-    return v as Record<string, unknown>;
-  }
-  return undefined;
-}
-
-function asNumberArray(v: unknown): number[] {
-  if (!Array.isArray(v)) return [];
-  return v.map((x) => safeNumber(x)).filter((x): x is number => x != null);
-}
 
-function average(values: number[]): number | undefined {
-  if (!values.length) return undefined;
-  return values.reduce((acc, x) => acc + x, 0) / values.length;
-}
+const DEFAULT_JSON_START_TIME = "12:00";
 
-function parseDurationString(s: string): number | undefined {
-  const trimmed = s.trim();
-  const parts = trimmed.split(":");
-  if (parts.length === 2) {
-    const m = Number(parts[0]);
-    const sec = Number(parts[1]);
-    if (Number.isFinite(m) && Number.isFinite(sec)) return m * 60 + sec;
-  }
-  if (parts.length === 3) {
-    const h = Number(parts[0]);
-    const m = Number(parts[1]);
-    const sec = Number(parts[2]);
-    if (Number.isFinite(h) && Number.isFinite(m) && Number.isFinite(sec)) {
-      return h * 3600 + m * 60 + sec;
-    }
-  }
-  return undefined;
-}
-
-function toMetersFromUnit(value: number, unitRaw: unknown): number {
-  const unit = typeof unitRaw === "string" ? unitRaw.trim().toLowerCase() : "";
-  if (!unit) return value;
-  if (
-    unit === "m" ||
-    unit === "meter" ||
-    unit === "meters" ||
-    unit === "metre" ||
-    unit === "metres"
-  ) {
-    return value;
-  }
-  if (unit === "km" || unit === "kilometer" || unit === "kilometers") {
-    return value * 1000;
-  }
-  if (unit === "mi" || unit === "mile" || unit === "miles" || unit === "mls") {
-    return value * 1609.344;
-  }
-  if (unit === "ft" || unit === "foot" || unit === "feet") {
-    return value * 0.3048;
-  }
-  return value;
-}
-
-function formatDuration(sec?: number): string {
-  if (!sec || sec <= 0) return "—";
-  const h = Math.floor(sec / 3600);
-  const m = Math.floor((sec % 3600) / 60);
-  const s = Math.floor(sec % 60);
-  if (h > 0)
-    return `${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
-  return `${m}:${String(s).padStart(2, "0")}`;
-}
-
-function formatDateHuman(iso?: string): string {
-  if (!iso) return "—";
-  const d = new Date(iso);
-  if (Number.isNaN(d.getTime())) return "—";
-  return d.toLocaleString();
-}
+const HR_RESAMPLE_LABELS: Record<HrResampleMode, string> = {
+  linear: "Linear",
+  hold: "Hold last value",
+  "gap-aware": "Gap-aware",
+};
 
-function pickSport(activityName: string): "Running" | "Biking" | "Other" {
-  const a = (activityName || "").toLowerCase();
-  if (a.includes("run")) return "Running";
-  if (a.includes("cycle") || a.includes("bike") || a.includes("ride"))
-    return "Biking";
-  return "Other";
-}
+const LAP_SPLIT_LABELS: Record<LapSplitMode, { label: string; unit?: string }> = {
+  none: { label: "Single lap" },
+  time: { label: "Every N minutes", unit: "min" },
+  distance: { label: "Every N metres", unit: "m" },
+  power: { label: "At power steps", unit: "W" },
+  hr: { label: "At HR steps", unit: "bpm" },
+};
 
 function downloadBlob(filename: string, blob: Blob) {
   const url = URL.createObjectURL(blob);
@@ -152,873 +76,104 @@ function downloadBlob(filename: string, blob: Blob) {
   URL.revokeObjectURL(url);
 }
 
-function downloadTextFile(
-  filename: string,
-  contents: string,
-  mime = "application/xml",
-) {
-  downloadBlob(filename, new Blob([contents], { type: mime }));
-}
-
-function prToMap(raw: unknown): Record<string, number> {
-  const out: Record<string, number> = {};
-
-  const rawRec = asRecord(raw);
-  const performedData = asRecord(rawRec?.performedData);
-  const physicalActivityData = asRecord(rawRec?.physicalActivityData);
-
-  const pr =
-    performedData?.pr ??
-    physicalActivityData?.pr ??
-    performedData?.PR ??
-    physicalActivityData?.PR;
-
-  if (!Array.isArray(pr)) return out;
-
-  for (const item of pr) {
-    const itemRec = asRecord(item);
-    const name = itemRec?.n;
-    const val = safeNumber(itemRec?.v);
-    if (typeof name === "string" && val != null) out[name] = val;
-  }
-  return out;
-}
-
-function pickDistanceM(metrics: Record<string, number>): number | undefined {
-  return (
-    metrics["HDistance"] ??
-    metrics["Distance"] ??
-    metrics["DistanceMeters"] ??
-    (metrics["Km"] != null ? metrics["Km"] * 1000 : undefined)
-  );
-}
-
-function pickVerticalM(metrics: Record<string, number>): number | undefined {
-  return metrics["Elevation"] ?? metrics["Floors"];
+// Re-applies a pasted workout's time of day on its payload date in `timeZone`.
+function withStartTime(w: Workout, time: string, timeZone: string): Workout {
+  const startedAtISO = w.startDate ? applyStartTime(w.startDate, time, timeZone) : undefined;
+  return startedAtISO
+    ? { ...w, startTime: time, startTimeZone: timeZone, startedAtISO, startedAtDisplay: formatDateHuman(startedAtISO) }
+    : { ...w, startTime: time, startTimeZone: timeZone };
 }
 
-function pickCadenceSpm(metrics: Record<string, number>): number | undefined {
-  return metrics["AvgSpm"] ?? metrics["Cadence"];
+// <input type="datetime-local"> value for an instant, in the browser's zone.
+function toDateTimeLocalValue(iso?: string): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
 }
 
-function safeDateToken(iso?: string): string {
-  const parsed = iso ? new Date(iso) : new Date();
-  const dt = Number.isNaN(parsed.getTime()) ? new Date() : parsed;
-  return dt.toISOString().replace(/[:]/g, "").replace(/\..+/, "Z");
+// Sport <select> values: "" keeps the detected sport, otherwise a SPORT_PRESETS index.
+function sportPresetValue(sport?: WorkoutSport): string {
+  if (!sport) return "";
+  const i = SPORT_PRESETS.findIndex((p) => sportLabel(p.sport) === sportLabel(sport));
+  return i >= 0 ? String(i) : "";
 }
 
-function pickFitSport(
-  w: Workout,
-): {
-  sport: "running" | "cycling" | "fitness_equipment" | "generic";
-  subSport?: "stair_climbing";
-} {
-  const a = (w.activityName || "").toLowerCase();
-  if (a.includes("run")) return { sport: "running" };
-  if (a.includes("cycle") || a.includes("bike") || a.includes("ride")) return { sport: "cycling" };
-  if (a.includes("stair") || a.includes("climb") || a.includes("floor")) {
-    return { sport: "fitness_equipment", subSport: "stair_climbing" };
-  }
-  if (w.source === "indoor") return { sport: "fitness_equipment" };
-  return { sport: "generic" };
-}
-
-function workoutToTCX(w: Workout, opts: WorkoutExportOpts): string {
-  const rawRec = asRecord(w.raw);
-  const rawStartISO =
-    typeof rawRec?.on === "string"
-      ? rawRec.on
-      : typeof rawRec?.performedDate === "string"
-        ? rawRec.performedDate
-        : undefined;
-  const startISO =
-    (typeof w.startedAtISO === "string" && w.startedAtISO) ||
-    rawStartISO ||
-    new Date().toISOString();
-
-  const start = new Date(startISO);
-  const validStartMs = Number.isNaN(start.getTime()) ? Date.now() : start.getTime();
-  const startForTCX = Number.isNaN(start.getTime())
-    ? new Date().toISOString()
-    : start.toISOString();
-
-  const totalSeconds = Math.max(0, Math.round(w.durationSec ?? 0));
-
-  const calories = opts.includeCalories ? w.calories : undefined;
-  const totalDistanceM = opts.includeDistance ? w.distanceM : undefined;
-  const totalVerticalM =
-    opts.includeVerticalAsAltitude && w.verticalM != null ? w.verticalM : undefined;
-
-  // Approximate series (only if user opts in)
-  const avgHr = w.metrics["AvgHr"];
-  const maxHr = w.metrics["MaxHr"];
-
-  const avgPower = w.metrics["AvgPower"];
-  const watts =
-    opts.includePowerSeries && avgPower != null ? Math.round(avgPower) : undefined;
-
-  // cadence in SPM:
-  // - Outdoor run: AvgSpm
-  // - Indoor: derive from Move/Duration when AvgSpm not present
-  const spmFromField = pickCadenceSpm(w.metrics);
-  const move = w.metrics["Move"];
-  const dur = w.metrics["Duration"] ?? w.durationSec ?? 0;
-
-  const cadenceSpm =
-    opts.includeCadenceSeries
-      ? spmFromField ??
-      (move != null && dur > 0 ? move / (dur / 60) : undefined)
-      : undefined;
-
-  const cadence = cadenceSpm != null ? Math.round(cadenceSpm) : undefined;
-
-  const points: string[] = [];
-  const hasSeries = Array.isArray(w.series) && w.series.length > 0;
-  if (hasSeries) {
-    const sortedSeries = [...(w.series ?? [])].sort((a, b) => a.tSec - b.tSec);
-    const seriesTotalSec = Math.max(
-      totalSeconds,
-      sortedSeries[sortedSeries.length - 1]?.tSec ?? 0,
-    );
-    for (const p of sortedSeries) {
-      const t = Math.max(0, Math.round(p.tSec));
-      const time = new Date(validStartMs + t * 1000).toISOString();
-      const hr =
-        opts.includeHrSeries
-          ? p.hr != null
-            ? Math.round(p.hr)
-            : undefined
-          : undefined;
-      const pointCadence =
-        opts.includeCadenceSeries
-          ? p.cadence != null
-            ? Math.round(p.cadence)
-            : cadence
-          : undefined;
-      const pointWatts =
-        opts.includePowerSeries
-          ? p.watts != null
-            ? Math.round(p.watts)
-            : watts
-          : undefined;
-      const dist =
-        totalDistanceM != null && seriesTotalSec > 0
-          ? totalDistanceM * (t / seriesTotalSec)
-          : 0;
-      const alt =
-        opts.includeVerticalAsAltitude
-          ? p.verticalM != null
-            ? p.verticalM
-            : totalVerticalM != null && seriesTotalSec > 0
-              ? totalVerticalM * (t / seriesTotalSec)
-              : undefined
-          : undefined;
-
-      points.push(`
-        <Trackpoint>
-          <Time>${time}</Time>
-          ${alt != null ? `<AltitudeMeters>${alt.toFixed(1)}</AltitudeMeters>` : ""}
-          <DistanceMeters>${dist.toFixed(1)}</DistanceMeters>
-          ${hr != null ? `<HeartRateBpm><Value>${hr}</Value></HeartRateBpm>` : ""}
-          ${pointCadence != null ? `<Cadence>${pointCadence}</Cadence>` : ""}
-          ${pointWatts != null
-          ? `<Extensions>
-                  <tpx:TPX>
-                    <tpx:Watts>${pointWatts}</tpx:Watts>
-                  </tpx:TPX>
-                </Extensions>`
-          : ""
-        }
-        </Trackpoint>`);
-    }
-  } else {
-    // Fallback synthetic trackpoints every 5 seconds (Strava-friendly)
-    const step = 5;
-    const n =
-      totalSeconds > 0 ? Math.max(2, Math.floor(totalSeconds / step) + 1) : 2;
-    for (let i = 0; i < n; i++) {
-      const t = Math.min(totalSeconds, i * step);
-      const time = new Date(validStartMs + t * 1000).toISOString();
-
-      // HR: export as constant AvgHr (explicitly approximate)
-      const hr =
-        opts.includeHrSeries && (avgHr != null || maxHr != null)
-          ? Math.round(avgHr ?? maxHr)
-          : undefined;
-
-      const dist =
-        totalDistanceM != null && totalSeconds > 0
-          ? totalDistanceM * (t / totalSeconds)
-          : 0;
-
-      const alt =
-        totalVerticalM != null && totalSeconds > 0
-          ? totalVerticalM * (t / totalSeconds)
-          : undefined;
-
-      points.push(`
-        <Trackpoint>
-          <Time>${time}</Time>
-          ${alt != null ? `<AltitudeMeters>${alt.toFixed(1)}</AltitudeMeters>` : ""}
-          <DistanceMeters>${dist.toFixed(1)}</DistanceMeters>
-          ${hr != null ? `<HeartRateBpm><Value>${hr}</Value></HeartRateBpm>` : ""}
-          ${cadence != null ? `<Cadence>${cadence}</Cadence>` : ""}
-          ${watts != null
-          ? `<Extensions>
-                  <tpx:TPX>
-                    <tpx:Watts>${watts}</tpx:Watts>
-                  </tpx:TPX>
-                </Extensions>`
-          : ""
-        }
-        </Trackpoint>`);
-    }
-  }
-
-  const sport = pickSport(w.activityName);
-
-  const notes =
-    opts.includeMetricsInNotes
-      ? `Mywellness metrics: ${Object.entries(w.metrics)
-        .map(([k, v]) => `${k}=${v}`)
-        .join(", ")}`
-      : "Generated from Mywellness export.";
-
-  return `<?xml version="1.0" encoding="UTF-8"?>
-<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"
-  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
-  xmlns:tpx="http://www.garmin.com/xmlschemas/ActivityExtension/v2"
-  xsi:schemaLocation="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2 http://www.garmin.com/xmlschemas/TrainingCenterDatabasev2.xsd">
-  <Activities>
-    <Activity Sport="${sport}">
-      <Id>${startForTCX}</Id>
-      <Lap StartTime="${startForTCX}">
-        <TotalTimeSeconds>${totalSeconds}</TotalTimeSeconds>
-        <DistanceMeters>${totalDistanceM != null ? totalDistanceM.toFixed(1) : "0"}</DistanceMeters>
-        ${calories != null ? `<Calories>${Math.max(0, Math.round(calories))}</Calories>` : ""}
-        <Intensity>Active</Intensity>
-        <TriggerMethod>Manual</TriggerMethod>
-        <Track>${points.join("\n")}
-        </Track>
-      </Lap>
-      <Notes>${notes}</Notes>
-    </Activity>
-  </Activities>
-</TrainingCenterDatabase>`;
+// Later pastes replace earlier rows for the same workout instead of duplicating them.
+function mergeWorkouts(existing: Workout[], incoming: Workout[]): Workout[] {
+  const byUid = new Map(existing.map((w) => [w.uid, w]));
+  for (const w of incoming) byUid.set(w.uid, w);
+  return [...byUid.values()];
 }
 
-function workoutToFIT(
-  w: Workout,
-  opts: WorkoutExportOpts,
-  enhancedCompatibility = false,
-): ArrayBuffer {
-  const rawRec = asRecord(w.raw);
-  const rawStartISO =
-    typeof rawRec?.on === "string"
-      ? rawRec.on
-      : typeof rawRec?.performedDate === "string"
-        ? rawRec.performedDate
-        : undefined;
-  const startISO =
-    (typeof w.startedAtISO === "string" && w.startedAtISO) ||
-    rawStartISO ||
-    new Date().toISOString();
-  const start = new Date(startISO);
-  const startMs = Number.isNaN(start.getTime()) ? Date.now() : start.getTime();
-
-  const totalSeconds = Math.max(0, Math.round(w.durationSec ?? 0));
-  const totalDistanceM = opts.includeDistance ? w.distanceM : undefined;
-  const totalVerticalM =
-    opts.includeVerticalAsAltitude && w.verticalM != null ? w.verticalM : undefined;
-  const calories = opts.includeCalories && w.calories != null ? Math.max(0, Math.round(w.calories)) : undefined;
-
-  const avgHr = w.metrics["AvgHr"];
-  const maxHr = w.metrics["MaxHr"];
-  const avgPower = w.metrics["AvgPower"];
-
-  const spmFromField = pickCadenceSpm(w.metrics);
-  const move = w.metrics["Move"];
-  const dur = w.metrics["Duration"] ?? w.durationSec ?? 0;
-  const defaultCadence =
-    opts.includeCadenceSeries
-      ? spmFromField ?? (move != null && dur > 0 ? move / (dur / 60) : undefined)
-      : undefined;
-  const defaultWatts = opts.includePowerSeries && avgPower != null ? Math.round(avgPower) : undefined;
-
-  const fit = new FitWriter({ noCompressedTimestamps: false });
-  const startFit = fit.time(new Date(startMs));
-
-  fit.writeMessage("file_id", {
-    type: "activity",
-    manufacturer: "garmin",
-    product: 0,
-    serial_number: 0,
-    time_created: startFit,
-    product_name: "mywellness2tcx",
-  }, null, true);
-
-  if (enhancedCompatibility) {
-    fit.writeMessage("file_creator", {
-      software_version: 100,
-      hardware_version: 1,
-    }, null, true);
-
-    fit.writeMessage("device_info", {
-      timestamp: startFit,
-      device_index: 0,
-      manufacturer: "garmin",
-      product: 0,
-      serial_number: 0,
-      software_version: 1.0,
-    }, null, true);
-
-    fit.writeMessage("event", {
-      timestamp: startFit,
-      event: "timer",
-      event_type: "start",
-      event_group: 0,
-    });
-  }
-
-  const hasSeries = Array.isArray(w.series) && w.series.length > 0;
-  const records: Array<{
-    tSec: number;
-    hr?: number;
-    cadence?: number;
-    watts?: number;
-    alt?: number;
-    dist: number;
-  }> = [];
-
-  if (hasSeries) {
-    const sortedSeries = [...(w.series ?? [])].sort((a, b) => a.tSec - b.tSec);
-    const hrAnchors = sortedSeries
-      .filter((p): p is SeriesPoint & { hr: number } => p.hr != null)
-      .sort((a, b) => a.tSec - b.tSec);
-    const hrAt = (tSec: number): number | undefined => {
-      if (!opts.includeHrSeries || hrAnchors.length === 0) return undefined;
-      if (hrAnchors.length === 1) return hrAnchors[0].hr;
-      if (tSec <= hrAnchors[0].tSec) return hrAnchors[0].hr;
-      const last = hrAnchors[hrAnchors.length - 1];
-      if (tSec >= last.tSec) return last.hr;
-      for (let i = 1; i < hrAnchors.length; i++) {
-        const a = hrAnchors[i - 1];
-        const b = hrAnchors[i];
-        if (tSec <= b.tSec) {
-          const span = b.tSec - a.tSec;
-          if (span <= 0) return b.hr;
-          const ratio = (tSec - a.tSec) / span;
-          return a.hr + (b.hr - a.hr) * ratio;
-        }
-      }
-      return last.hr;
-    };
-    const seriesTotalSec = Math.max(totalSeconds, sortedSeries[sortedSeries.length - 1]?.tSec ?? 0);
-    for (const p of sortedSeries) {
-      const t = Math.max(0, Math.round(p.tSec));
-      const hrRaw = hrAt(t);
-      const hr =
-        opts.includeHrSeries && hrRaw != null ? Math.round(hrRaw) : undefined;
-      const cadence =
-        opts.includeCadenceSeries
-          ? p.cadence != null
-            ? Math.round(p.cadence)
-            : defaultCadence != null
-              ? Math.round(defaultCadence)
-              : undefined
-          : undefined;
-      const watts =
-        opts.includePowerSeries
-          ? p.watts != null
-            ? Math.round(p.watts)
-            : defaultWatts
-          : undefined;
-      const dist =
-        totalDistanceM != null && seriesTotalSec > 0
-          ? totalDistanceM * (t / seriesTotalSec)
-          : 0;
-      const alt =
-        opts.includeVerticalAsAltitude
-          ? p.verticalM != null
-            ? p.verticalM
-            : totalVerticalM != null && seriesTotalSec > 0
-              ? totalVerticalM * (t / seriesTotalSec)
-              : undefined
-          : undefined;
-      records.push({ tSec: t, hr, cadence, watts, alt, dist });
-    }
-    if (opts.includeHrSeries && records.length > 0) {
-      let firstKnown: number | undefined;
-      for (const r of records) {
-        if (r.hr != null) {
-          firstKnown = r.hr;
-          break;
-        }
-      }
-      const fallbackHr =
-        firstKnown ??
-        (avgHr != null ? Math.round(avgHr) : maxHr != null ? Math.round(maxHr) : undefined);
-      if (fallbackHr != null) {
-        let prev = fallbackHr;
-        for (const r of records) {
-          if (r.hr == null) r.hr = prev;
-          else prev = r.hr;
-        }
-      }
-    }
-  } else {
-    const step = 5;
-    const n =
-      totalSeconds > 0 ? Math.max(2, Math.floor(totalSeconds / step) + 1) : 2;
-    for (let i = 0; i < n; i++) {
-      const t = Math.min(totalSeconds, i * step);
-      const hr =
-        opts.includeHrSeries && (avgHr != null || maxHr != null)
-          ? Math.round(avgHr ?? maxHr)
-          : undefined;
-      const dist =
-        totalDistanceM != null && totalSeconds > 0
-          ? totalDistanceM * (t / totalSeconds)
-          : 0;
-      const alt =
-        totalVerticalM != null && totalSeconds > 0
-          ? totalVerticalM * (t / totalSeconds)
-          : undefined;
-      const cadence = defaultCadence != null ? Math.round(defaultCadence) : undefined;
-      records.push({ tSec: t, hr, cadence, watts: defaultWatts, alt, dist });
-    }
-  }
-
-  const lastTSec = records.length ? records[records.length - 1].tSec : totalSeconds;
-  const totalTime = Math.max(1, lastTSec);
-  const avgSpeed = totalDistanceM != null && totalTime > 0 ? totalDistanceM / totalTime : undefined;
-  const maxSpeed = avgSpeed != null ? avgSpeed * 1.08 : undefined;
-  const totalAscent = totalVerticalM != null ? Math.max(0, totalVerticalM) : undefined;
-  const totalDescent = totalVerticalM != null ? 0 : undefined;
-  const totalWork =
-    avgPower != null
-      ? Math.max(0, Math.round(avgPower * totalTime))
-      : undefined;
-
-  for (const r of records) {
-    fit.writeMessage("record", {
-      timestamp: fit.time(new Date(startMs + r.tSec * 1000)),
-      distance: r.dist,
-      heart_rate: r.hr,
-      cadence: r.cadence,
-      power: r.watts,
-      altitude: r.alt,
-    });
-  }
+// A pasted workout that matches exactly one summary-only ZIP row. It is only
+// merged into that row once the user confirms.
+type PendingMerge = {
+  detail: Workout;
+  summaryUid: string;
+};
 
-  const sport = pickFitSport(w);
-  const endFit = fit.time(new Date(startMs + Math.max(1, lastTSec) * 1000));
-
-  fit.writeMessage("lap", {
-    timestamp: endFit,
-    start_time: startFit,
-    total_elapsed_time: totalTime,
-    total_timer_time: totalTime,
-    total_distance: totalDistanceM ?? 0,
-    total_calories: calories,
-    total_ascent: totalAscent,
-    total_descent: totalDescent,
-    avg_speed: avgSpeed,
-    max_speed: maxSpeed,
-    avg_heart_rate: avgHr != null ? Math.round(avgHr) : undefined,
-    max_heart_rate: maxHr != null ? Math.round(maxHr) : undefined,
-    avg_power: avgPower != null ? Math.round(avgPower) : undefined,
-    total_work: totalWork,
-    avg_cadence: defaultCadence != null ? Math.round(defaultCadence) : undefined,
-  }, null, true);
-
-  fit.writeMessage("session", {
-    timestamp: endFit,
-    start_time: startFit,
-    total_elapsed_time: totalTime,
-    total_timer_time: totalTime,
-    total_distance: totalDistanceM ?? 0,
-    total_calories: calories,
-    total_ascent: totalAscent,
-    total_descent: totalDescent,
-    avg_speed: avgSpeed,
-    max_speed: maxSpeed,
-    total_work: totalWork,
-    sport: sport.sport,
-    sub_sport: sport.subSport,
-    num_laps: 1,
-    avg_heart_rate: avgHr != null ? Math.round(avgHr) : undefined,
-    max_heart_rate: maxHr != null ? Math.round(maxHr) : undefined,
-    avg_power: avgPower != null ? Math.round(avgPower) : undefined,
-    avg_cadence: defaultCadence != null ? Math.round(defaultCadence) : undefined,
-  }, null, true);
-
-  fit.writeMessage("activity", {
-    timestamp: endFit,
-    total_timer_time: totalTime,
-    num_sessions: 1,
-    type: "manual",
-  }, null, true);
-
-  if (enhancedCompatibility) {
-    fit.writeMessage("event", {
-      timestamp: endFit,
-      event: "timer",
-      event_type: "stop_all",
-      event_group: 0,
-    }, null, true);
-
-    fit.writeMessage("device_info", {
-      timestamp: endFit,
-      device_index: 0,
-      manufacturer: "garmin",
-      product: 0,
-      serial_number: 0,
-      software_version: 1.0,
-    }, null, true);
-  }
+type WorkoutFilters = {
+  fromDate: string;
+  toDate: string;
+  name: string;
+  source: "all" | Workout["source"];
+  minDurationMin: number;
+  minDistanceKm: number;
+};
 
-  const data = fit.finish();
-  const out = new Uint8Array(data.byteLength);
-  out.set(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
-  return out.buffer;
-}
+const EMPTY_FILTERS: WorkoutFilters = {
+  fromDate: "",
+  toDate: "",
+  name: "",
+  source: "all",
+  minDurationMin: 0,
+  minDistanceKm: 0,
+};
 
-function extractWorkoutsFromIndoorJSON(obj: unknown): Workout[] {
-
-  const items = Array.isArray(obj) ? obj : [];
-  return items.map((raw: unknown, idx: number) => {
-    const rawRec = asRecord(raw);
-    const metrics = prToMap(raw);
-    const startedAt = rawRec?.on;
-    const durationSec = metrics["Duration"];
-    const calories = metrics["Calories"];
-    const distanceM = pickDistanceM(metrics);
-    const verticalM = pickVerticalM(metrics);
-    const cadenceSpm = pickCadenceSpm(metrics);
-
-    // Best-effort naming (improve later using facility metadata if present)
-    const activityName =
-      rawRec?.activityName ||
-      (verticalM != null ? "Stair climber" : "Indoor workout");
-
-    const id = String(rawRec?.id ?? `${startedAt ?? "ind"}-${idx}`);
-    const uid = `indoor-${String(startedAt ?? "unknown")}-${id}-${idx}`;
-
-    return {
-      uid,
-      source: "indoor",
-      id,
-      startedAtISO: typeof startedAt === "string" ? startedAt : undefined,
-      startedAtDisplay:
-        typeof startedAt === "string" ? formatDateHuman(startedAt) : "—",
-      activityName: String(activityName),
-      durationSec,
-      distanceM,
-      calories,
-      verticalM,
-      cadenceSpm,
-      metrics,
-      metricKeys: Object.keys(metrics).sort(),
-      raw,
-
-      exportOpts: {
-        includeHrSeries: metrics["AvgHr"] != null || metrics["MaxHr"] != null,
-        includeCadenceSeries: cadenceSpm != null || metrics["AvgSpm"] != null || metrics["Cadence"] != null,
-        includePowerSeries: metrics["AvgPower"] != null,
-        includeMetricsInNotes: false,
-        includeCalories: calories != null,
-        includeDistance: distanceM != null,
-        includeVerticalAsAltitude: verticalM != null,
-      },
-    };
-  });
+// Local calendar date (YYYY-MM-DD) so it compares directly with <input type="date"> values.
+function localDateKey(iso?: string): string | undefined {
+  if (!iso) return undefined;
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return undefined;
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
 }
 
-function extractWorkoutsFromOutdoorJSON(obj: unknown): Workout[] {
-  const objRec = asRecord(obj);
-  const items = Array.isArray(obj)
-    ? obj
-    : (objRec?.items ?? objRec?.activities ?? objRec?.data ?? []);
-  if (!Array.isArray(items)) return [];
-
-  return items.map((raw: unknown, idx: number) => {
-    const rawRec = asRecord(raw);
-    const metrics = prToMap(raw);
-    const durationSec =
-      metrics["Duration"] ??
-      safeNumber(rawRec?.duration) ??
-      safeNumber(rawRec?.Duration);
-    const calories =
-      metrics["Calories"] ??
-      safeNumber(rawRec?.calories) ??
-      safeNumber(rawRec?.Calories);
-    const distanceM = pickDistanceM(metrics);
-    const verticalM = pickVerticalM(metrics);
-    const cadenceSpm = pickCadenceSpm(metrics);
-
-    const startedAt = rawRec?.performedDate ?? rawRec?.on;
-    const activityName = rawRec?.activityName ?? "Outdoor workout";
-    const id = String(rawRec?.id ?? rawRec?.uuid ?? `${startedAt ?? "out"}-${idx}`);
-    const uid = `outdoor-${String(startedAt ?? "unknown")}-${id}-${idx}`;
-
-    return {
-      uid,
-      source: "outdoor",
-      id,
-      startedAtISO: typeof startedAt === "string" ? startedAt : undefined,
-      startedAtDisplay:
-        typeof startedAt === "string" ? formatDateHuman(startedAt) : "—",
-      activityName: String(activityName),
-      durationSec,
-      calories,
-      distanceM,
-      verticalM,
-      cadenceSpm,
-      metrics,
-      metricKeys: Object.keys(metrics).sort(),
-      raw,
-
-      exportOpts: {
-        includeHrSeries: metrics["AvgHr"] != null || metrics["MaxHr"] != null,
-        includeCadenceSeries: cadenceSpm != null || metrics["AvgSpm"] != null || metrics["Cadence"] != null,
-        includePowerSeries: metrics["AvgPower"] != null,
-        includeMetricsInNotes: false,
-        includeCalories: calories != null,
-        includeDistance: distanceM != null,
-        includeVerticalAsAltitude: verticalM != null,
-      },
-    };
+function filterWorkouts(ws: Workout[], f: WorkoutFilters): Workout[] {
+  const name = f.name.trim().toLowerCase();
+  return ws.filter((w) => {
+    const day = localDateKey(w.startedAtISO);
+    if (f.fromDate && (!day || day < f.fromDate)) return false;
+    if (f.toDate && (!day || day > f.toDate)) return false;
+    if (name && !w.activityName.toLowerCase().includes(name)) return false;
+    if (f.source !== "all" && w.source !== f.source) return false;
+    if (f.minDurationMin > 0 && (w.durationSec ?? 0) < f.minDurationMin * 60) return false;
+    if (f.minDistanceKm > 0 && (w.distanceM ?? 0) < f.minDistanceKm * 1000) return false;
+    return true;
   });
 }
-void extractWorkoutsFromOutdoorJSON;
-
-function extractWorkoutFromSinglePageJSON(
-  obj: unknown,
-  preferredStartTime?: string,
-): Workout | null {
-  const root = asRecord(obj);
-  const core = asRecord(root?.data) ?? root;
-  if (!core) return null;
-
-  const analytics = asRecord(core.analitics);
-  const descriptors = Array.isArray(analytics?.descriptor) ? analytics.descriptor : [];
-  const samples = Array.isArray(analytics?.samples) ? analytics.samples : [];
-  const hrSamples = Array.isArray(analytics?.hr) ? analytics.hr : [];
-  const summaryData = Array.isArray(core.data) ? core.data : [];
-
-  const descriptorByIndex = new Map<number, string>();
-  const descriptorUnitByIndex = new Map<number, string>();
-  for (const d of descriptors) {
-    const rec = asRecord(d);
-    const i = safeNumber(rec?.i);
-    const pr = asRecord(rec?.pr);
-    const name = typeof pr?.name === "string" ? pr.name : undefined;
-    const unit = typeof pr?.um === "string" ? pr.um : undefined;
-    if (i != null && name) descriptorByIndex.set(i, name);
-    if (i != null && unit) descriptorUnitByIndex.set(i, unit);
-  }
 
-  const hrByT = new Map<number, number>();
-  for (const h of hrSamples) {
-    const rec = asRecord(h);
-    const t = safeNumber(rec?.t);
-    const hr = safeNumber(rec?.hr);
-    if (t != null && hr != null) hrByT.set(Math.round(t), hr);
-  }
-  const hrAnchors = [...hrByT.entries()]
-    .map(([tSec, hr]) => ({ tSec, hr }))
-    .sort((a, b) => a.tSec - b.tSec);
-  const hrAt = (tSec: number): number | undefined => {
-    if (hrAnchors.length === 0) return undefined;
-    if (hrAnchors.length === 1) return hrAnchors[0].hr;
-    if (tSec <= hrAnchors[0].tSec) return hrAnchors[0].hr;
-    const last = hrAnchors[hrAnchors.length - 1];
-    if (tSec >= last.tSec) return last.hr;
-    for (let i = 1; i < hrAnchors.length; i++) {
-      const a = hrAnchors[i - 1];
-      const b = hrAnchors[i];
-      if (tSec <= b.tSec) {
-        const span = b.tSec - a.tSec;
-        if (span <= 0) return b.hr;
-        const ratio = (tSec - a.tSec) / span;
-        return a.hr + (b.hr - a.hr) * ratio;
-      }
+// Moves the members of each duplicate group up next to the group's first row.
+function groupDuplicatesTogether(ws: Workout[], groupByUid: Map<string, DuplicateGroup>): Workout[] {
+  const out: Workout[] = [];
+  const placed = new Set<string>();
+  for (const w of ws) {
+    if (placed.has(w.uid)) continue;
+    const group = groupByUid.get(w.uid);
+    const members = group ? ws.filter((x) => group.uids.includes(x.uid)) : [w];
+    for (const m of members) {
+      out.push(m);
+      placed.add(m.uid);
     }
-    return last.hr;
-  };
-
-  const series: SeriesPoint[] = [];
-  let sampleDistanceM: number | undefined;
-  for (const s of samples) {
-    const rec = asRecord(s);
-    const t = safeNumber(rec?.t);
-    const vs = asNumberArray(rec?.vs);
-    if (t == null) continue;
-
-    const point: SeriesPoint = { tSec: Math.max(0, Math.round(t)) };
-    for (let idx = 0; idx < vs.length; idx++) {
-      const key = descriptorByIndex.get(idx)?.toLowerCase();
-      const value = vs[idx];
-      if (!key) continue;
-      if (key === "power" || key === "runningpower") point.watts = value;
-      if (key === "spm" || key === "rpm" || key === "cadence" || key === "runningcadence") {
-        point.cadence = value;
-      }
-      if (key === "floors" || key === "elevation") {
-        point.verticalM = toMetersFromUnit(value, descriptorUnitByIndex.get(idx));
-      }
-      if (key === "hdistance" || key === "distance") {
-        const distM = toMetersFromUnit(value, descriptorUnitByIndex.get(idx));
-        sampleDistanceM = sampleDistanceM == null ? distM : Math.max(sampleDistanceM, distM);
-      }
-    }
-    const hr = hrAt(point.tSec);
-    if (hr != null) point.hr = Math.round(hr);
-    series.push(point);
-  }
-
-  series.sort((a, b) => a.tSec - b.tSec);
-
-  let durationSec = series.length ? series[series.length - 1].tSec : undefined;
-  let move: number | undefined;
-  let summaryDistanceM: number | undefined;
-  let summaryVerticalM: number | undefined;
-  let calories: number | undefined;
-  for (const item of summaryData) {
-    const rec = asRecord(item);
-    const property = typeof rec?.property === "string" ? rec.property.toLowerCase() : "";
-    const name = typeof rec?.name === "string" ? rec.name.toLowerCase() : "";
-    const unit = typeof rec?.uM === "string" ? rec.uM : "";
-    const rawValue = safeNumber(rec?.rawValue);
-    if (property.includes("duration") || name.includes("duration")) {
-      const fromRawMin = rawValue;
-      const fromText = typeof rec?.value === "string" ? parseDurationString(rec.value) : undefined;
-      durationSec = fromText ?? (fromRawMin != null ? Math.round(fromRawMin * 60) : durationSec);
-    }
-    if (property.includes("move") || name.includes("move")) {
-      move = rawValue;
-    }
-    if (
-      property.includes("distance") ||
-      property.includes("hdistance") ||
-      name.includes("distance")
-    ) {
-      if (rawValue != null) {
-        summaryDistanceM = toMetersFromUnit(rawValue, unit);
-      }
-    }
-    if (property.includes("elevation") || property.includes("floors") || name.includes("elevation")) {
-      if (rawValue != null) {
-        summaryVerticalM = toMetersFromUnit(rawValue, unit);
-      }
-    }
-    if (property.includes("calories") || name.includes("calories")) {
-      calories = rawValue;
-    }
-  }
-
-  const hrValues = series.map((p) => p.hr).filter((x): x is number => x != null);
-  const powerValues = series.map((p) => p.watts).filter((x): x is number => x != null);
-  const cadenceValues = series.map((p) => p.cadence).filter((x): x is number => x != null);
-  const verticalValues = series.map((p) => p.verticalM).filter((x): x is number => x != null);
-
-  const metrics: Record<string, number> = {};
-  if (durationSec != null) metrics["Duration"] = durationSec;
-  if (move != null) metrics["Move"] = move;
-  if (hrValues.length) {
-    const avgHr = average(hrValues);
-    if (avgHr != null) metrics["AvgHr"] = avgHr;
-    metrics["MaxHr"] = Math.max(...hrValues);
-  }
-  if (powerValues.length) {
-    const avgPower = average(powerValues);
-    if (avgPower != null) metrics["AvgPower"] = avgPower;
-  }
-  if (cadenceValues.length) {
-    const avgSpm = average(cadenceValues);
-    if (avgSpm != null) metrics["AvgSpm"] = avgSpm;
   }
-  if (verticalValues.length) {
-    metrics["Floors"] = Math.max(...verticalValues);
-  }
-  const distanceM = sampleDistanceM ?? summaryDistanceM;
-  if (distanceM != null) metrics["HDistance"] = distanceM;
-  if (summaryVerticalM != null && metrics["Floors"] == null) metrics["Floors"] = summaryVerticalM;
-
-  const dateStr = typeof core.date === "string" ? core.date : undefined;
-  const parsedDate = dateStr ? new Date(dateStr) : undefined;
-  let startedAtISO = parsedDate && !Number.isNaN(parsedDate.getTime()) ? parsedDate.toISOString() : undefined;
-  if (startedAtISO && preferredStartTime) {
-    const match = preferredStartTime.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
-    if (match) {
-      const hh = Number(match[1]);
-      const mm = Number(match[2]);
-      const ss = Number(match[3] ?? "0");
-      if (
-        Number.isFinite(hh) && hh >= 0 && hh < 24 &&
-        Number.isFinite(mm) && mm >= 0 && mm < 60 &&
-        Number.isFinite(ss) && ss >= 0 && ss < 60
-      ) {
-        const dt = new Date(startedAtISO);
-        dt.setHours(hh, mm, ss, 0);
-        startedAtISO = dt.toISOString();
-      }
-    }
-  }
-
-  const activityName =
-    typeof core.physicalActivityName === "string"
-      ? core.physicalActivityName
-      : typeof core.name === "string"
-        ? core.name
-        : typeof core.equipmentType === "string"
-          ? core.equipmentType
-          : "MyWellness workout";
-
-  const id =
-    typeof core.cardioLogId === "string"
-      ? core.cardioLogId
-      : typeof core.physicalActivityId === "string"
-        ? core.physicalActivityId
-        : `json-${Date.now()}`;
-
-  const verticalM = verticalValues.length ? Math.max(...verticalValues) : summaryVerticalM;
-  const cadenceSpm = average(cadenceValues);
-  const hasDistance = pickDistanceM(metrics) != null;
-
-  return {
-    uid: `json-${id}`,
-    source: "indoor",
-    id,
-    startedAtISO,
-    startedAtDisplay: startedAtISO ? formatDateHuman(startedAtISO) : "—",
-    activityName,
-    durationSec,
-    calories,
-    distanceM: pickDistanceM(metrics),
-    verticalM,
-    cadenceSpm: cadenceSpm != null ? cadenceSpm : undefined,
-    metrics,
-    metricKeys: Object.keys(metrics).sort(),
-    raw: core,
-    series,
-    exportOpts: {
-      includeHrSeries: hrValues.length > 0,
-      includeCadenceSeries: cadenceValues.length > 0,
-      includePowerSeries: powerValues.length > 0,
-      includeMetricsInNotes: false,
-      includeCalories: calories != null,
-      includeDistance: hasDistance,
-      includeVerticalAsAltitude: verticalM != null,
-    },
-  };
+  return out;
 }
 
-function computeSummary(ws: Workout[]) {
+function computeSummary(ws: Workout[], settings: ExportSettings) {
   const totalSec = ws.reduce((acc, w) => acc + (w.durationSec ?? 0), 0);
   const totalDistM = ws.reduce((acc, w) => acc + (w.distanceM ?? 0), 0);
-  const totalVertM = ws.reduce((acc, w) => acc + (w.verticalM ?? 0), 0);
+  const totalVertM = ws.reduce((acc, w) => acc + (workoutVerticalM(w, settings) ?? 0), 0);
   return { totalSec, totalDistM, totalVertM };
 }
 
@@ -1038,9 +193,37 @@ export default function App() {
   const [lastImportMode, setLastImportMode] = useState<ImportMode | null>(null);
   const [exportFormat, setExportFormat] = useState<ExportFormat>("tcx");
   const [enhancedFitCompatibility, setEnhancedFitCompatibility] = useState(false);
+  const [lapSplit, setLapSplit] = useState<LapSplitRule>(DEFAULT_EXPORT_SETTINGS.lapSplit);
+  const [hrResampling, setHrResampling] = useState<HrResampling>(DEFAULT_EXPORT_SETTINGS.hrResampling);
+  const [metersPerFloor, setMetersPerFloor] = useState(DEFAULT_EXPORT_SETTINGS.metersPerFloor);
+  const [fitDeveloperFields, setFitDeveloperFields] = useState(DEFAULT_EXPORT_SETTINGS.fitDeveloperFields);
+  const [athlete, setAthlete] = useState<AthleteProfile>(loadAthleteProfile);
+  const [hrZoneBoundsText, setHrZoneBoundsText] = useState(() =>
+    (athlete.hrZoneBoundsPct ?? DEFAULT_HR_ZONE_BOUNDS_PCT).join(", "),
+  );
   const [jsonInput, setJsonInput] = useState("");
-  const [jsonStartTime, setJsonStartTime] = useState("12:00");
   const [showJsonHelp, setShowJsonHelp] = useState(false);
+  const [jsonTimeZone, setJsonTimeZone] = useState(browserTimeZone);
+  const [userSportRules, setUserSportRules] = useState<SportRule[]>(loadUserSportRules);
+  const [showSportRules, setShowSportRules] = useState(false);
+  const timeZones = useMemo(listTimeZones, []);
+  const [diagnosticsUids, setDiagnosticsUids] = useState<Set<string>>(() => new Set());
+  const [chartUids, setChartUids] = useState<Set<string>>(() => new Set());
+  const [editUids, setEditUids] = useState<Set<string>>(() => new Set());
+  const [bulkEdit, setBulkEdit] = useState({ sport: "", name: "", notes: "" });
+  const [filters, setFilters] = useState<WorkoutFilters>(EMPTY_FILTERS);
+  const [selectedUids, setSelectedUids] = useState<Set<string>>(() => new Set());
+  const [ledger, setLedger] = useState<ExportLedger>(loadLedger);
+  const [onlyNewWorkouts, setOnlyNewWorkouts] = useState(false);
+  const [ledgerError, setLedgerError] = useState<string | null>(null);
+  const [dismissedDuplicateKeys, setDismissedDuplicateKeys] = useState<Set<string>>(() => new Set());
+  const [pendingMerges, setPendingMerges] = useState<PendingMerge[]>([]);
+  const ledgerInputRef = useRef<HTMLInputElement | null>(null);
+  const [diagnosticsGapSec, setDiagnosticsGapSec] = useState(DEFAULT_DIAGNOSTICS_GAP_SEC);
+  // Keyed by uid; a result only shows while the workout and settings it was run on are current.
+  const [roundTrips, setRoundTrips] = useState<
+    Record<string, { workout: Workout; settings: ExportSettings; text: string }>
+  >({});
 
   const sortedWorkouts = useMemo(() => {
     return [...workouts].sort((a, b) => {
@@ -1050,7 +233,77 @@ export default function App() {
     });
   }, [workouts]);
 
-  const summary = useMemo(() => computeSummary(sortedWorkouts), [sortedWorkouts]);
+  const duplicateGroups = useMemo(
+    () => findDuplicateGroups(workouts).filter((g) => !dismissedDuplicateKeys.has(g.key)),
+    [workouts, dismissedDuplicateKeys],
+  );
+
+  const duplicateGroupByUid = useMemo(() => {
+    const out = new Map<string, DuplicateGroup>();
+    for (const g of duplicateGroups) for (const uid of g.uids) out.set(uid, g);
+    return out;
+  }, [duplicateGroups]);
+
+  const visibleWorkouts = useMemo(
+    () => groupDuplicatesTogether(filterWorkouts(sortedWorkouts, filters), duplicateGroupByUid),
+    [sortedWorkouts, filters, duplicateGroupByUid],
+  );
+
+  // ZIP rows stay summary-only until pasted single-page JSON adds their samples.
+  const summaryOnlyCount = useMemo(
+    () => visibleWorkouts.filter((w) => !hasSampledSeries(w)).length,
+    [visibleWorkouts],
+  );
+
+  // Bulk export and the summary only cover rows that are both visible and ticked.
+  const selectedWorkouts = useMemo(
+    () => visibleWorkouts.filter((w) => selectedUids.has(w.uid)),
+    [visibleWorkouts, selectedUids],
+  );
+
+  const bulkWorkouts = useMemo(
+    () => (onlyNewWorkouts ? selectedWorkouts.filter((w) => !ledger[ledgerKey(w)]) : selectedWorkouts),
+    [selectedWorkouts, onlyNewWorkouts, ledger],
+  );
+
+  const exportSettings = useMemo<ExportSettings>(
+    () => ({
+      enhancedFitCompatibility,
+      lapSplit,
+      hrResampling,
+      sportRules: [...userSportRules, ...DEFAULT_SPORT_RULES],
+      metersPerFloor,
+      fitDeveloperFields,
+      athlete,
+    }),
+    [enhancedFitCompatibility, lapSplit, hrResampling, userSportRules, metersPerFloor, fitDeveloperFields, athlete],
+  );
+
+  const summary = useMemo(() => computeSummary(selectedWorkouts, exportSettings), [selectedWorkouts, exportSettings]);
+
+  // Time in zone only depends on the resampled HR and the zone fields, so FTP,
+  // lap or sport edits keep the results. They are cached per workout object:
+  // filtering reuses them and an edited workout (a new object) is recomputed.
+  const { maxHr, restingHr, hrZoneMethod, hrZoneBoundsPct } = athlete;
+  const hrZoneCache = useMemo(() => {
+    const settings: ExportSettings = {
+      ...DEFAULT_EXPORT_SETTINGS,
+      hrResampling,
+      athlete: { maxHr, restingHr, hrZoneMethod, hrZoneBoundsPct },
+    };
+    return { settings, byWorkout: new WeakMap<Workout, HrZoneTimes | undefined>() };
+  }, [hrResampling, maxHr, restingHr, hrZoneMethod, hrZoneBoundsPct]);
+
+  const hrZonesByUid = useMemo(() => {
+    const out = new Map<string, HrZoneTimes | undefined>();
+    const { settings, byWorkout } = hrZoneCache;
+    if (!hrZoneHighBpm(settings.athlete)) return out;
+    for (const w of visibleWorkouts) {
+      if (!byWorkout.has(w)) byWorkout.set(w, workoutTimeInHrZones(w, settings));
+      out.set(w.uid, byWorkout.get(w));
+    }
+    return out;
+  }, [visibleWorkouts, hrZoneCache]);
 
   function resetParsedState() {
     setError(null);
@@ -1058,10 +311,53 @@ export default function App() {
     setZipName(null);
     setDidParse(false);
     setLastImportMode(null);
+    setSelectedUids(new Set());
+    setDismissedDuplicateKeys(new Set());
+    setPendingMerges([]);
+  }
+
+  // Imports add to the current list so a ZIP and pasted JSON can be compared.
+  // Probable duplicates start with only the recommended version selected.
+  function addImportedWorkouts(incoming: Workout[], base: Workout[] = workouts) {
+    const next = mergeWorkouts(base, incoming);
+    const selected = new Set([...selectedUids, ...incoming.map((w) => w.uid)]);
+    for (const group of findDuplicateGroups(next)) {
+      if (dismissedDuplicateKeys.has(group.key)) continue;
+      for (const uid of group.uids) if (uid !== group.preferredUid) selected.delete(uid);
+    }
+    setWorkouts(next);
+    setSelectedUids(selected);
+  }
+
+  function keepDuplicate(group: DuplicateGroup, keepUid: string) {
+    const drop = new Set(group.uids.filter((uid) => uid !== keepUid));
+    setWorkouts((prev) => prev.filter((w) => !drop.has(w.uid)));
+    setSelectedUids((prev) => new Set([...prev].filter((uid) => !drop.has(uid))));
+  }
+
+  // The row may have been removed, or given a series by an earlier merge, since
+  // the offer; the pasted workout is then added as its own row.
+  function confirmMerge(merge: PendingMerge) {
+    setPendingMerges((prev) => prev.filter((m) => m !== merge));
+    const target = workouts.find((w) => w.uid === merge.summaryUid);
+    if (!target || target.series?.length) {
+      addImportedWorkouts([merge.detail]);
+      return;
+    }
+    setWorkouts((prev) => prev.map((w) => (w.uid === target.uid ? mergeDetailIntoSummary(target, merge.detail) : w)));
+  }
+
+  function declineMerge(merge: PendingMerge) {
+    setPendingMerges((prev) => prev.filter((m) => m !== merge));
+    addImportedWorkouts([merge.detail]);
+  }
+
+  function dismissDuplicateGroup(group: DuplicateGroup) {
+    setDismissedDuplicateKeys((prev) => new Set([...prev, group.key]));
   }
 
   async function onZipSelected(file: File | null) {
-    resetParsedState();
+    setError(null);
 
     if (!file) return;
     if (!file.name.toLowerCase().endsWith(".zip")) {
@@ -1074,42 +370,15 @@ export default function App() {
       const zip = await JSZip.loadAsync(file);
       setZipName(file.name);
 
-      // Privacy-by-design:
-      // Parse only indooractivities* for machine workouts.
-      // Ignore all other files (including masterdata* and biometrics*).
-      const fileEntries = Object.keys(zip.files);
-
-      const targetNames = fileEntries.filter((n) => {
-        const lower = n.toLowerCase();
-        const basename = lower.split("/").pop() ?? lower;
-        return basename.startsWith("indooractivities-") && basename.endsWith(".json");
-      });
+      const { activityFiles, workouts: all } = await extractWorkoutsFromZip(zip);
 
-      if (targetNames.length === 0) {
+      if (activityFiles.length === 0) {
         setError(
-          "Could not find indooractivities-*.json in this ZIP. Make sure it’s a full MyWellness export.",
+          "Could not find indooractivities-*.json or outdooractivities-*.json in this ZIP. Make sure it’s a full MyWellness export.",
         );
         return;
       }
 
-      const all: Workout[] = [];
-
-      for (const name of targetNames) {
-        const lower = name.toLowerCase();
-        const basename = lower.split("/").pop() ?? lower;
-        const text = await zip.files[name].async("string");
-        let obj: unknown;
-        try {
-          obj = JSON.parse(text);
-        } catch {
-          continue;
-        }
-
-        if (basename.startsWith("indooractivities-")) {
-          all.push(...extractWorkoutsFromIndoorJSON(obj));
-        }
-      }
-
       if (all.length === 0) {
         setError(
           "Found activity files but couldn’t parse any workouts. The export schema may differ.",
@@ -1117,7 +386,7 @@ export default function App() {
         return;
       }
 
-      setWorkouts(all);
+      addImportedWorkouts(all);
       setDidParse(true);
       setLastImportMode("zip");
     } catch (e: unknown) {
@@ -1132,51 +401,209 @@ export default function App() {
   }
 
   function onParsePastedJson() {
-    resetParsedState();
+    setError(null);
     const text = jsonInput.trim();
     if (!text) {
       setError("Paste a JSON object from a single MyWellness Training Workout page first.");
       return;
     }
 
+    let payloads: unknown[];
     try {
-      const parsed = JSON.parse(text) as unknown;
-      const workout = extractWorkoutFromSinglePageJSON(parsed, jsonStartTime);
-      if (!workout) {
-        setError("Couldn’t find a supported single-workout payload in this JSON.");
-        return;
-      }
-
-      setWorkouts([workout]);
-      setZipName("mywellness-single-workout");
-      setDidParse(true);
-      setLastImportMode("json");
+      payloads = parseSinglePagePayloads(text);
     } catch (e: unknown) {
       if (e instanceof Error) {
         setError(`Invalid JSON: ${e.message}`);
       } else {
         setError("Invalid JSON payload.");
       }
+      return;
     }
-  }
 
-  async function downloadAllAsZip() {
-    const zip = new JSZip();
-    for (const w of sortedWorkouts) {
-      const safeDate = safeDateToken(w.startedAtISO);
-      if (exportFormat === "fit") {
-        const fit = workoutToFIT(w, w.exportOpts, enhancedFitCompatibility);
-        const fname = `mywellness-${w.source}-${safeDate}-${w.id}.fit`;
-        zip.file(fname, fit);
+    const parsed = payloads
+      .map((p) => extractWorkoutFromSinglePageJSON(p, DEFAULT_JSON_START_TIME, jsonTimeZone))
+      .filter((w): w is Workout => w != null);
+    if (parsed.length === 0) {
+      setError("Couldn’t find a supported single-workout payload in this JSON.");
+      return;
+    }
+
+    // A payload for a workout already listed from a ZIP is offered for that row
+    // instead of being added with a guessed start time. A new paste of the same
+    // payload replaces its earlier offer.
+    const kept = pendingMerges.filter((m) => !parsed.some((d) => d.uid === m.detail.uid));
+    const offered = new Set(kept.map((m) => m.summaryUid));
+    const offers: PendingMerge[] = [];
+    const unmatched: Workout[] = [];
+    for (const detail of parsed) {
+      const summary = findSummaryMatch(detail, workouts);
+      if (summary && !offered.has(summary.uid)) {
+        offered.add(summary.uid);
+        offers.push({ detail, summaryUid: summary.uid });
       } else {
-        const tcx = workoutToTCX(w, w.exportOpts);
-        const fname = `mywellness-${w.source}-${safeDate}-${w.id}.tcx`;
-        zip.file(fname, tcx);
+        unmatched.push(detail);
       }
     }
+    addImportedWorkouts(unmatched);
+    setPendingMerges([...kept, ...offers]);
+    // Pasted rows added to a ZIP list keep its name and banner; only a paste
+    // into an empty list starts a JSON list.
+    if (workouts.length === 0) {
+      setZipName("mywellness-json-workouts");
+      setLastImportMode("json");
+    }
+    setDidParse(true);
+    setJsonInput("");
+  }
+
+  function updateLedger(next: ExportLedger) {
+    setLedger(next);
+    setLedgerError(null);
+    try {
+      saveLedger(next);
+    } catch (e: unknown) {
+      setLedgerError(`Could not save export history: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  async function downloadSelectedAsZip() {
+    const zip = new JSZip();
+    for (const w of bulkWorkouts) {
+      const file = exportWorkout(w, exportFormat, exportSettings);
+      zip.file(file.fileName, file.data);
+    }
     const blob = await zip.generateAsync({ type: "blob" });
     const base = (zipName ?? "mywellness").replace(/\.zip$/i, "");
     downloadBlob(`${base}-${exportFormat}.zip`, blob);
+    updateLedger(recordExports(ledger, bulkWorkouts, exportFormat));
+  }
+
+  function downloadLedger() {
+    downloadBlob("mywellness2tcx-ledger.json", new Blob([serializeLedger(ledger)], { type: "application/json" }));
+  }
+
+  async function onLedgerSelected(file: File | null) {
+    if (!file) return;
+    try {
+      updateLedger(mergeLedgers(ledger, parseLedger(await file.text())));
+    } catch (e: unknown) {
+      setLedgerError(`Failed to import export history: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  function updateWorkoutStartTime(w: Workout, time: string) {
+    setWorkouts((prev) =>
+      prev.map((x) => (x.uid === w.uid ? withStartTime(x, time, x.startTimeZone ?? jsonTimeZone) : x))
+    );
+  }
+
+  // The zone applies to every pasted workout, so changing it moves existing rows too.
+  function updateJsonTimeZone(timeZone: string) {
+    setJsonTimeZone(timeZone);
+    setWorkouts((prev) =>
+      prev.map((x) => (x.startTime != null ? withStartTime(x, x.startTime, timeZone) : x))
+    );
+  }
+
+  function toggleSelected(w: Workout, selected: boolean) {
+    setSelectedUids((prev) => {
+      const next = new Set(prev);
+      if (selected) next.add(w.uid);
+      else next.delete(w.uid);
+      return next;
+    });
+  }
+
+  function setAllVisibleSelected(selected: boolean) {
+    setSelectedUids((prev) => {
+      const next = new Set(prev);
+      for (const w of visibleWorkouts) {
+        if (selected) next.add(w.uid);
+        else next.delete(w.uid);
+      }
+      return next;
+    });
+  }
+
+  function toggleExpanded(setExpanded: Dispatch<SetStateAction<Set<string>>>, w: Workout) {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(w.uid)) next.delete(w.uid);
+      else next.add(w.uid);
+      return next;
+    });
+  }
+
+  async function runRoundTrip(w: Workout) {
+    let text: string;
+    try {
+      // Loaded on demand so the FIT/XML parsers stay out of the main bundle.
+      const { formatRoundTrip, roundTripChecks } = await import("./converter/roundtrip");
+      text = formatRoundTrip(await roundTripChecks(w, exportSettings));
+    } catch (e: unknown) {
+      text = `Round trip failed: ${e instanceof Error ? e.message : String(e)}`;
+    }
+    setRoundTrips((prev) => ({ ...prev, [w.uid]: { workout: w, settings: exportSettings, text } }));
+  }
+
+  function updateWorkout(w: Workout, patch: Partial<Workout>) {
+    setWorkouts((prev) => prev.map((x) => (x.uid === w.uid ? { ...x, ...patch } : x)));
+  }
+
+  function updateWorkoutStartedAt(w: Workout, value: string) {
+    const d = new Date(value);
+    if (Number.isNaN(d.getTime())) return;
+    const startedAtISO = d.toISOString();
+    updateWorkout(w, { startedAtISO, startedAtDisplay: formatDateHuman(startedAtISO) });
+  }
+
+  // Fills in only the bulk fields the user set; empty fields leave rows unchanged.
+  function applyBulkEdit() {
+    const uids = new Set(selectedWorkouts.map((w) => w.uid));
+    const sport = bulkEdit.sport ? SPORT_PRESETS[Number(bulkEdit.sport)].sport : undefined;
+    setWorkouts((prev) =>
+      prev.map((x) => {
+        if (!uids.has(x.uid)) return x;
+        return {
+          ...x,
+          ...(sport ? { sport } : {}),
+          ...(bulkEdit.name.trim() ? { activityName: bulkEdit.name.trim() } : {}),
+          ...(bulkEdit.notes.trim() ? { notes: bulkEdit.notes.trim() } : {}),
+        };
+      })
+    );
+    setBulkEdit({ sport: "", name: "", notes: "" });
+  }
+
+  function updateUserSportRules(rules: SportRule[]) {
+    setUserSportRules(rules);
+    try {
+      saveUserSportRules(rules);
+    } catch {
+      // Storage full or disabled: the rules still apply until the page is closed.
+    }
+  }
+
+  function updateAthlete(next: AthleteProfile) {
+    setAthlete(next);
+    try {
+      saveAthleteProfile(next);
+    } catch {
+      // Storage full or disabled: the values still apply until the page is closed.
+    }
+  }
+
+  // An empty or non-positive input clears the value.
+  function updateAthleteNumber(key: "ftpW" | "thresholdHr" | "maxHr" | "restingHr", text: string) {
+    const value = Number(text);
+    updateAthlete({ ...athlete, [key]: text.trim() && value > 0 ? value : undefined });
+  }
+
+  // Invalid bounds stay in the input but are not applied.
+  function updateHrZoneBounds(text: string) {
+    setHrZoneBoundsText(text);
+    const bounds = parseHrZoneBounds(text);
+    if (bounds) updateAthlete({ ...athlete, hrZoneBoundsPct: bounds });
   }
 
   function updateWorkoutOpts(
@@ -1204,6 +631,24 @@ export default function App() {
 
   const subtleText: CSSProperties = { fontSize: 13, opacity: 0.78, lineHeight: 1.4 };
 
+  const linkButtonStyle: CSSProperties = {
+    border: "none",
+    background: "transparent",
+    color: "#1d4ed8",
+    cursor: "pointer",
+    textDecoration: "underline",
+    padding: 0,
+    fontSize: 13,
+  };
+
+  const inputStyle: CSSProperties = {
+    borderRadius: 8,
+    border: "1px solid #94a3b8",
+    padding: "2px 6px",
+    background: "#ffffff",
+    color: "#0f172a",
+  };
+
   const thStyle: CSSProperties = {
     padding: "10px 8px",
     border: "1px solid #94a3b8",
@@ -1239,7 +684,7 @@ export default function App() {
           </h1>
 
           <p style={{ marginTop: 10, ...subtleText, fontSize: 16 }}>
-            Import data from Technogym/MyWellness and download <b>TCX or FIT files.</b>{" "}
+            Import data from Technogym/MyWellness and download <b>TCX, FIT or GPX files.</b>{" "}
             Upload a ZIP export or paste a single workout JSON payload.
           </p>
           <div style={{ display: "flex", gap: 10, marginTop: 12, flexWrap: "wrap" }}>
@@ -1396,7 +841,8 @@ export default function App() {
                 {!zipName && !isLoading && !error && (
                   <div style={{ marginTop: 14, ...subtleText }}>
                     Reads only{" "}
-                    <code style={{ backgroundColor: "#dbe2ee" }}>indooractivities-*.json</code>.
+                    <code style={{ backgroundColor: "#dbe2ee" }}>indooractivities-*.json</code> and{" "}
+                    <code style={{ backgroundColor: "#dbe2ee" }}>outdooractivities-*.json</code>.
                   </div>
                 )}
               </div>
@@ -1452,26 +898,6 @@ export default function App() {
                     </ol>
                   </div>
                 )}
-                <div style={{ marginTop: 10, display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
-                  <label htmlFor="json-start-time" style={{ ...subtleText, fontWeight: 600, opacity: 1 }}>
-                    Workout start time:
-                  </label>
-                  <input
-                    id="json-start-time"
-                    type="time"
-                    step={1}
-                    value={jsonStartTime}
-                    onChange={(e) => setJsonStartTime(e.target.value)}
-                    style={{
-                      borderRadius: 8,
-                      border: "1px solid #94a3b8",
-                      padding: "6px 8px",
-                      background: "#ffffff",
-                      color: "#0f172a",
-                    }}
-                  />
-                  <span style={subtleText}>Date comes from JSON; time comes from this field.</span>
-                </div>
                 <textarea
                   value={jsonInput}
                   onChange={(e) => setJsonInput(e.target.value)}
@@ -1488,6 +914,22 @@ export default function App() {
                     boxSizing: "border-box",
                   }}
                 />
+                <div style={{ marginTop: 8, display: "flex", gap: 6, alignItems: "center", ...subtleText, opacity: 1 }}>
+                  <label htmlFor="json-time-zone" style={{ fontWeight: 600 }}>Start times are in:</label>
+                  <select
+                    id="json-time-zone"
+                    value={jsonTimeZone}
+                    onChange={(e) => updateJsonTimeZone(e.target.value)}
+                    style={inputStyle}
+                  >
+                    {timeZones.map((tz) => (
+                      <option key={tz} value={tz}>
+                        {tz}
+                        {tz === browserTimeZone() ? " (this browser)" : ""}
+                      </option>
+                    ))}
+                  </select>
+                </div>
                 <div style={{ marginTop: 10, display: "flex", gap: 10, alignItems: "center" }}>
                   <button type="button" style={downloadButtonStyle} onClick={onParsePastedJson}>
                     Process Workout
@@ -1507,15 +949,64 @@ export default function App() {
                   >
                     How to get this JSON?
                   </button>
-                  <span style={subtleText}>Supports one workout per paste.</span>
+                  {workouts.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={resetParsedState}
+                      style={linkButtonStyle}
+                    >
+                      Clear workouts
+                    </button>
+                  )}
                 </div>
+                <div style={{ marginTop: 8, ...subtleText }}>
+                  Paste one payload, a JSON array of payloads, or one payload per line. Each paste is added to
+                  the list below; the date comes from the JSON and you can set each workout’s start time in the table.
+                  If the workout is already listed from a ZIP, you can add the detailed series to that row; it keeps the ZIP start time.
+                </div>
+                {pendingMerges.map((merge) => {
+                  const target = workouts.find((w) => w.uid === merge.summaryUid);
+                  return (
+                    <div
+                      key={merge.detail.uid}
+                      style={{
+                        marginTop: 8,
+                        padding: "8px 12px",
+                        border: "1px solid #93c5fd",
+                        borderRadius: 10,
+                        background: "#eff6ff",
+                        display: "flex",
+                        gap: 10,
+                        alignItems: "center",
+                        flexWrap: "wrap",
+                        fontSize: 13,
+                      }}
+                    >
+                      <span>
+                        Pasted <b>{merge.detail.activityName}</b> ({merge.detail.startDate ?? merge.detail.startedAtDisplay},{" "}
+                        {formatDuration(merge.detail.durationSec)}) matches the ZIP row{" "}
+                        <b>{target?.activityName ?? "—"}</b> ({target?.startedAtDisplay ?? "—"},{" "}
+                        {formatDuration(target?.durationSec)}).
+                      </span>
+                      <button type="button" onClick={() => confirmMerge(merge)} style={linkButtonStyle}>
+                        Add the series to that row
+                      </button>
+                      <button type="button" onClick={() => declineMerge(merge)} style={linkButtonStyle}>
+                        Keep as a separate workout
+                      </button>
+                    </div>
+                  );
+                })}
               </div>
             )}
 
             {zipName && !error && lastImportMode === "zip" && (
               <div style={{ marginTop: 14, fontSize: 14 }}>
                 <b>Loaded:</b> {zipName} — <b>{sortedWorkouts.length}</b>{" "}
-                workout{sortedWorkouts.length === 1 ? "" : "s"} detected
+                workout{sortedWorkouts.length === 1 ? "" : "s"} in the list{" "}
+                <button type="button" onClick={resetParsedState} style={linkButtonStyle}>
+                  Clear workouts
+                </button>
               </div>
             )}
 
@@ -1545,7 +1036,8 @@ export default function App() {
                 <div>
                   <div style={{ fontWeight: 700, marginBottom: 6 }}>Detected workouts</div>
                   <div style={subtleText}>
-                    Total: <b>{sortedWorkouts.length}</b>
+                    Selected: <b>{selectedWorkouts.length}</b> of {sortedWorkouts.length}
+                    {visibleWorkouts.length !== sortedWorkouts.length && ` (${visibleWorkouts.length} shown)`}
                   </div>
                 </div>
                 <div style={subtleText}>
@@ -1578,6 +1070,15 @@ export default function App() {
                         />
                         FIT
                       </label>
+                      <label style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                        <input
+                          type="radio"
+                          name="export-format"
+                          checked={exportFormat === "gpx"}
+                          onChange={() => setExportFormat("gpx")}
+                        />
+                        GPX
+                      </label>
                     </div>
                     {exportFormat === "fit" && (
                       <label style={{ display: "inline-flex", alignItems: "center", gap: 6, ...subtleText }}>
@@ -1589,39 +1090,394 @@ export default function App() {
                         Enhanced FIT compatibility (experimental)
                       </label>
                     )}
+                    {exportFormat === "fit" && (
+                      <label style={{ display: "inline-flex", alignItems: "center", gap: 6, ...subtleText }}>
+                        <input
+                          type="checkbox"
+                          checked={fitDeveloperFields}
+                          onChange={(e) => setFitDeveloperFields(e.target.checked)}
+                        />
+                        Keep all MyWellness metrics as FIT developer fields
+                      </label>
+                    )}
+                    {exportFormat === "fit" && (
+                      <div style={{ display: "flex", gap: 6, alignItems: "center", ...subtleText, opacity: 1 }}>
+                        <label htmlFor="athlete-ftp" style={{ fontWeight: 600 }}>Training load:</label>
+                        <span>FTP</span>
+                        <input
+                          id="athlete-ftp"
+                          type="number"
+                          min={1}
+                          value={athlete.ftpW ?? ""}
+                          onChange={(e) => updateAthleteNumber("ftpW", e.target.value)}
+                          style={{ width: 60 }}
+                        />
+                        <span>W, threshold HR</span>
+                        <input
+                          type="number"
+                          min={1}
+                          value={athlete.thresholdHr ?? ""}
+                          onChange={(e) => updateAthleteNumber("thresholdHr", e.target.value)}
+                          aria-label="Threshold heart rate in bpm"
+                          style={{ width: 60 }}
+                        />
+                        <span>bpm (saved in this browser; used for NP, IF and TSS)</span>
+                      </div>
+                    )}
+                    <div style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap", ...subtleText, opacity: 1 }}>
+                      <label htmlFor="athlete-max-hr" style={{ fontWeight: 600 }}>HR zones:</label>
+                      <span>max</span>
+                      <input
+                        id="athlete-max-hr"
+                        type="number"
+                        min={1}
+                        value={athlete.maxHr ?? ""}
+                        onChange={(e) => updateAthleteNumber("maxHr", e.target.value)}
+                        style={{ width: 60 }}
+                      />
+                      <span>resting</span>
+                      <input
+                        type="number"
+                        min={1}
+                        value={athlete.restingHr ?? ""}
+                        onChange={(e) => updateAthleteNumber("restingHr", e.target.value)}
+                        aria-label="Resting heart rate in bpm"
+                        style={{ width: 60 }}
+                      />
+                      <span>bpm, bounds</span>
+                      <input
+                        value={hrZoneBoundsText}
+                        onChange={(e) => updateHrZoneBounds(e.target.value)}
+                        aria-label="Lower bounds of HR zones 1 to 5 in percent"
+                        style={{ width: 120, borderColor: parseHrZoneBounds(hrZoneBoundsText) ? undefined : "#c0392b" }}
+                      />
+                      <select
+                        value={athlete.hrZoneMethod ?? "percent-max"}
+                        onChange={(e) => updateAthlete({ ...athlete, hrZoneMethod: e.target.value as HrZoneMethod })}
+                        aria-label="HR zone method"
+                      >
+                        {(Object.keys(HR_ZONE_METHOD_LABELS) as HrZoneMethod[]).map((method) => (
+                          <option key={method} value={method}>
+                            {HR_ZONE_METHOD_LABELS[method]}
+                          </option>
+                        ))}
+                      </select>
+                      <span>(saved in this browser)</span>
+                    </div>
+                    <div style={{ display: "flex", gap: 6, alignItems: "center", ...subtleText, opacity: 1 }}>
+                      <label htmlFor="hr-resample-mode" style={{ fontWeight: 600 }}>HR between readings:</label>
+                      <select
+                        id="hr-resample-mode"
+                        value={hrResampling.mode}
+                        onChange={(e) => setHrResampling({ ...hrResampling, mode: e.target.value as HrResampleMode })}
+                      >
+                        {(Object.keys(HR_RESAMPLE_LABELS) as HrResampleMode[]).map((mode) => (
+                          <option key={mode} value={mode}>
+                            {HR_RESAMPLE_LABELS[mode]}
+                          </option>
+                        ))}
+                      </select>
+                      {hrResampling.mode === "gap-aware" && (
+                        <>
+                          <span>max gap</span>
+                          <input
+                            type="number"
+                            min={1}
+                            value={hrResampling.maxGapSec}
+                            onChange={(e) => setHrResampling({ ...hrResampling, maxGapSec: Number(e.target.value) })}
+                            aria-label="Maximum HR gap in seconds"
+                            style={{ width: 60 }}
+                          />
+                          <span>s</span>
+                        </>
+                      )}
+                    </div>
+                    {workouts.some((w) => w.floors != null) && (
+                      <div style={{ display: "flex", gap: 6, alignItems: "center", ...subtleText, opacity: 1 }}>
+                        <label htmlFor="meters-per-floor" style={{ fontWeight: 600 }}>Metres per floor:</label>
+                        <input
+                          id="meters-per-floor"
+                          type="number"
+                          min={0.5}
+                          step={0.1}
+                          value={metersPerFloor}
+                          onChange={(e) => setMetersPerFloor(Number(e.target.value))}
+                          style={{ width: 60 }}
+                        />
+                        <span>m (stair machines count floors)</span>
+                      </div>
+                    )}
+                    {exportFormat !== "gpx" && (
+                      <div style={{ display: "flex", gap: 6, alignItems: "center", ...subtleText, opacity: 1 }}>
+                        <label htmlFor="lap-split-mode" style={{ fontWeight: 600 }}>Laps:</label>
+                        <select
+                          id="lap-split-mode"
+                          value={lapSplit.mode}
+                          onChange={(e) => {
+                            const mode = e.target.value as LapSplitMode;
+                            setLapSplit({ mode, value: DEFAULT_LAP_SPLIT_VALUES[mode] });
+                          }}
+                        >
+                          {(Object.keys(LAP_SPLIT_LABELS) as LapSplitMode[]).map((mode) => (
+                            <option key={mode} value={mode}>
+                              {LAP_SPLIT_LABELS[mode].label}
+                            </option>
+                          ))}
+                        </select>
+                        {lapSplit.mode !== "none" && (
+                          <>
+                            <input
+                              type="number"
+                              min={1}
+                              value={lapSplit.value}
+                              onChange={(e) => setLapSplit({ ...lapSplit, value: Number(e.target.value) })}
+                              aria-label="Lap split value"
+                              style={{ width: 70 }}
+                            />
+                            <span>{LAP_SPLIT_LABELS[lapSplit.mode].unit}</span>
+                          </>
+                        )}
+                      </div>
+                    )}
+                    <div style={subtleText}>
+                      <button
+                        type="button"
+                        onClick={() => setShowSportRules(!showSportRules)}
+                        aria-expanded={showSportRules}
+                        style={linkButtonStyle}
+                      >
+                        Sport rules{userSportRules.length ? ` (${userSportRules.length} custom)` : ""}
+                      </button>
+                    </div>
                   </div>
-                  {lastImportMode === "zip" && (
-                    <button
-                      style={{
-                        ...downloadButtonStyle,
-                        opacity: sortedWorkouts.length ? 1 : 0.5,
-                      }}
-                      disabled={!sortedWorkouts.length}
-                      onClick={() => void downloadAllAsZip()}
-                      title={`Download all workouts as a single ZIP of ${exportFormat.toUpperCase()} files`}
-                    >
-                      Download all as ZIP ({exportFormat.toUpperCase()})
-                    </button>
+                  {(lastImportMode === "zip" || sortedWorkouts.length > 1) && (
+                    <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+                      <button
+                        style={{
+                          ...downloadButtonStyle,
+                          opacity: bulkWorkouts.length ? 1 : 0.5,
+                        }}
+                        disabled={!bulkWorkouts.length}
+                        onClick={() => void downloadSelectedAsZip()}
+                        title={`Download the selected workouts as a single ZIP of ${exportFormat.toUpperCase()} files`}
+                      >
+                        Download selected as ZIP ({bulkWorkouts.length} × {exportFormat.toUpperCase()})
+                      </button>
+                      <label style={{ display: "inline-flex", alignItems: "center", gap: 6, ...subtleText }}>
+                        <input
+                          type="checkbox"
+                          checked={onlyNewWorkouts}
+                          onChange={(e) => setOnlyNewWorkouts(e.target.checked)}
+                        />
+                        Only workouts not exported before
+                      </label>
+                    </div>
                   )}
                 </div>
-                {lastImportMode === "zip" && (
+                {summaryOnlyCount > 0 && (
                   <div style={{ marginTop: 8, fontSize: 14 }}>
                     <span>
-                      <b>Note: </b>The MyWellness zip export only provides total workout values, so per-trackpoint data is estimated from averages.
+                      <b>Note: </b>
+                      {summaryOnlyCount === visibleWorkouts.length
+                        ? "The listed workouts only have"
+                        : `${summaryOnlyCount} of the ${visibleWorkouts.length} listed workouts only have`}{" "}
+                      total values (as in the MyWellness zip export), so their per-trackpoint data is estimated from averages.
                     </span>
                   </div>
                 )}
+                <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", marginTop: 8, ...subtleText }}>
+                  <span>
+                    Export history: <b>{Object.keys(ledger).length}</b> workout{Object.keys(ledger).length === 1 ? "" : "s"} exported on this browser
+                  </span>
+                  <button type="button" onClick={downloadLedger} style={linkButtonStyle}>
+                    Save history
+                  </button>
+                  <button type="button" onClick={() => ledgerInputRef.current?.click()} style={linkButtonStyle}>
+                    Import history
+                  </button>
+                  {Object.keys(ledger).length > 0 && (
+                    <button type="button" onClick={() => updateLedger({})} style={linkButtonStyle}>
+                      Clear history
+                    </button>
+                  )}
+                  {ledgerError && <span style={{ color: "#b91c1c" }}>{ledgerError}</span>}
+                  <input
+                    ref={ledgerInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    style={{ display: "none" }}
+                    onChange={(e) => {
+                      void onLedgerSelected(e.target.files?.[0] ?? null);
+                      e.target.value = "";
+                    }}
+                  />
+                </div>
               </div>
 
             </div>
 
 
 
+            {showSportRules && (
+              <div style={{ margin: "0px 16px 12px", padding: 12, border: "1px solid #94a3b8", borderRadius: 10, background: "#ffffff" }}>
+                <SportRulesPanel rules={userSportRules} onChange={updateUserSportRules} />
+              </div>
+            )}
+
+            {duplicateGroups.length > 0 && (
+              <div
+                style={{
+                  margin: "0px 16px 12px",
+                  padding: "8px 12px",
+                  border: "1px solid #f59e0b",
+                  borderRadius: 10,
+                  background: "#fffbeb",
+                  display: "flex",
+                  gap: 10,
+                  alignItems: "center",
+                  flexWrap: "wrap",
+                  fontSize: 13,
+                }}
+              >
+                <span>
+                  <b>{duplicateGroups.length}</b> group{duplicateGroups.length === 1 ? "" : "s"} of possible duplicates.
+                  They are highlighted below; only the recommended version of each is selected.
+                </span>
+                <button
+                  type="button"
+                  onClick={() => duplicateGroups.forEach((g) => keepDuplicate(g, g.preferredUid))}
+                  style={linkButtonStyle}
+                >
+                  Keep recommended versions
+                </button>
+              </div>
+            )}
+
+            {/* Filters */}
+            <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center", padding: "0px 16px 12px", ...subtleText, opacity: 1 }}>
+              <label style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                From
+                <input
+                  type="date"
+                  value={filters.fromDate}
+                  onChange={(e) => setFilters({ ...filters, fromDate: e.target.value })}
+                  style={inputStyle}
+                />
+              </label>
+              <label style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                To
+                <input
+                  type="date"
+                  value={filters.toDate}
+                  onChange={(e) => setFilters({ ...filters, toDate: e.target.value })}
+                  style={inputStyle}
+                />
+              </label>
+              <input
+                type="search"
+                placeholder="Activity name"
+                value={filters.name}
+                onChange={(e) => setFilters({ ...filters, name: e.target.value })}
+                aria-label="Filter by activity name"
+                style={inputStyle}
+              />
+              <select
+                value={filters.source}
+                onChange={(e) => setFilters({ ...filters, source: e.target.value as WorkoutFilters["source"] })}
+                aria-label="Filter by type"
+                style={inputStyle}
+              >
+                <option value="all">All types</option>
+                <option value="indoor">Machine</option>
+                <option value="outdoor">Outdoor</option>
+              </select>
+              <label style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                Min
+                <input
+                  type="number"
+                  min={0}
+                  value={filters.minDurationMin}
+                  onChange={(e) => setFilters({ ...filters, minDurationMin: Number(e.target.value) })}
+                  aria-label="Minimum duration in minutes"
+                  style={{ ...inputStyle, width: 60 }}
+                />
+                min
+              </label>
+              <label style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                Min
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={filters.minDistanceKm}
+                  onChange={(e) => setFilters({ ...filters, minDistanceKm: Number(e.target.value) })}
+                  aria-label="Minimum distance in kilometres"
+                  style={{ ...inputStyle, width: 60 }}
+                />
+                km
+              </label>
+              <button type="button" onClick={() => setFilters(EMPTY_FILTERS)} style={linkButtonStyle}>
+                Reset filters
+              </button>
+            </div>
+
+            {/* Bulk edit */}
+            {selectedWorkouts.length > 0 && (
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", padding: "0px 16px 12px", ...subtleText, opacity: 1 }}>
+                <span style={{ fontWeight: 600 }}>Edit selected ({selectedWorkouts.length}):</span>
+                <select
+                  value={bulkEdit.sport}
+                  onChange={(e) => setBulkEdit({ ...bulkEdit, sport: e.target.value })}
+                  aria-label="Sport for selected workouts"
+                  style={inputStyle}
+                >
+                  <option value="">Sport unchanged</option>
+                  {SPORT_PRESETS.map((p, i) => (
+                    <option key={p.label} value={i}>
+                      {p.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  placeholder="Name"
+                  value={bulkEdit.name}
+                  onChange={(e) => setBulkEdit({ ...bulkEdit, name: e.target.value })}
+                  aria-label="Name for selected workouts"
+                  style={inputStyle}
+                />
+                <input
+                  type="text"
+                  placeholder="Notes"
+                  value={bulkEdit.notes}
+                  onChange={(e) => setBulkEdit({ ...bulkEdit, notes: e.target.value })}
+                  aria-label="Notes for selected workouts"
+                  style={inputStyle}
+                />
+                <button
+                  type="button"
+                  onClick={applyBulkEdit}
+                  disabled={!bulkEdit.sport && !bulkEdit.name.trim() && !bulkEdit.notes.trim()}
+                  style={linkButtonStyle}
+                >
+                  Apply to selected
+                </button>
+              </div>
+            )}
+
             {/* Table section */}
             <div style={{ overflowX: "auto", padding: "0px 16px" }}>
               <table style={{ width: "100%", borderCollapse: "collapse" }}>
                 <thead>
                   <tr style={{ textAlign: "left" }}>
+                    <th style={{ ...thStyle, textAlign: "center" }}>
+                      <input
+                        type="checkbox"
+                        checked={visibleWorkouts.length > 0 && visibleWorkouts.every((w) => selectedUids.has(w.uid))}
+                        onChange={(e) => setAllVisibleSelected(e.target.checked)}
+                        aria-label="Select all shown workouts"
+                      />
+                    </th>
                     <th style={thStyle}>
                       Date
                     </th>
@@ -1645,20 +1501,87 @@ export default function App() {
                   </tr>
                 </thead>
                 <tbody>
-                  {sortedWorkouts.map((w) => (
+                  {visibleWorkouts.length === 0 && (
+                    <tr>
+                      <td style={{ ...tdStyle, ...subtleText }} colSpan={12}>
+                        No workouts match the current filters.
+                      </td>
+                    </tr>
+                  )}
+                  {visibleWorkouts.map((w) => (
                     <Fragment key={w.uid}>
-                      <tr>
+                      <tr style={duplicateGroupByUid.has(w.uid) ? { background: "#fffbeb" } : undefined}>
+                        <td style={tdValueRowCenter}>
+                          <input
+                            type="checkbox"
+                            checked={selectedUids.has(w.uid)}
+                            onChange={(e) => toggleSelected(w, e.target.checked)}
+                            aria-label={`Select ${w.id}`}
+                          />
+                        </td>
                         <td style={tdValueRow}>
                           {w.startedAtDisplay}
+                          {ledger[ledgerKey(w)] && (
+                            <div
+                              style={{ ...subtleText, color: "#15803d" }}
+                              title={`Exported as ${ledger[ledgerKey(w)].format.toUpperCase()} on ${formatDateHuman(ledger[ledgerKey(w)].exportedAtISO)}`}
+                            >
+                              ✓ Exported
+                            </div>
+                          )}
+                          {w.startTime != null && (
+                            <div style={{ marginTop: 4 }}>
+                              <input
+                                type="time"
+                                step={1}
+                                value={w.startTime}
+                                onChange={(e) => updateWorkoutStartTime(w, e.target.value)}
+                                aria-label={`Start time for ${w.id}`}
+                                style={inputStyle}
+                              />
+                              <div style={subtleText}>
+                                {w.startTimeZone ?? jsonTimeZone}
+                                {w.startedAtISO && (
+                                  <>
+                                    <br />
+                                    UTC {formatInTimeZone(w.startedAtISO, "UTC")}
+                                    <br />
+                                    {browserTimeZone()} {formatInTimeZone(w.startedAtISO, browserTimeZone())}
+                                  </>
+                                )}
+                              </div>
+                            </div>
+                          )}
                         </td>
                         <td style={tdValueRow}>
                           {w.activityName}
+                          <div style={subtleText}>{sportLabel(resolveSport(w, exportSettings.sportRules))}</div>
+                          {(() => {
+                            const group = duplicateGroupByUid.get(w.uid);
+                            if (!group) return null;
+                            const isFirst = visibleWorkouts.find((x) => group.uids.includes(x.uid))?.uid === w.uid;
+                            return (
+                              <div style={{ ...subtleText, display: "flex", gap: 8, flexWrap: "wrap", marginTop: 4 }}>
+                                <span style={{ color: "#b45309" }}>
+                                  Possible duplicate{group.preferredUid === w.uid ? " (recommended)" : ""}
+                                </span>
+                                <button type="button" onClick={() => keepDuplicate(group, w.uid)} style={linkButtonStyle}>
+                                  Keep this one
+                                </button>
+                                {isFirst && (
+                                  <button type="button" onClick={() => dismissDuplicateGroup(group)} style={linkButtonStyle}>
+                                    Not duplicates
+                                  </button>
+                                )}
+                              </div>
+                            );
+                          })()}
                         </td>
                         <td style={tdValueRow}>
                           {formatDuration(w.durationSec)}
                         </td>
                         <td style={tdValueRow}>
-                          Machine
+                          {w.source === "outdoor" ? "Outdoor" : "Machine"}
                         </td>
 
                         <td style={tdValueRowCenter}>
@@ -1674,6 +1597,24 @@ export default function App() {
                                 ? Math.round(w.metrics["MaxHr"]) + " bpm"
                                 : "—"}
                           </div>
+                          {(() => {
+                            const zones = hrZonesByUid.get(w.uid);
+                            const total = zones?.seconds.reduce((acc, sec) => acc + sec, 0) ?? 0;
+                            if (!zones || total <= 0) return null;
+                            return (
+                              <div
+                                style={{ ...subtleText, fontSize: 11 }}
+                                title={zones.seconds
+                                  .map((sec, i) => `Z${i} (${hrZoneRange(zones.highBpm, i)}): ${formatDuration(sec)}`)
+                                  .join("\n")}
+                              >
+                                {zones.seconds
+                                  .map((sec, i) => (sec > 0 ? `Z${i} ${Math.round((sec / total) * 100)}%` : null))
+                                  .filter(Boolean)
+                                  .join(" · ")}
+                              </div>
+                            );
+                          })()}
                         </td>
                         <td style={tdValueRowCenter}>
                           <div style={{ ...subtleText }}>
@@ -1698,7 +1639,11 @@ export default function App() {
 
                         <td style={tdValueRowCenter}>
                           <div style={{ ...subtleText }}>
-                            {w.verticalM != null ? `${w.verticalM.toFixed(1)} m` : "—"}
+                            {w.verticalM != null
+                              ? `${w.verticalM.toFixed(1)} m`
+                              : w.floors != null
+                                ? `${Math.round(w.floors)} floors (${(w.floors * metersPerFloor).toFixed(0)} m)`
+                                : "—"}
                           </div>
                         </td>
 
@@ -1706,16 +1651,9 @@ export default function App() {
                           <button
                             style={{ ...downloadButtonStyle, whiteSpace: "nowrap" }}
                             onClick={() => {
-                              const safeDate = safeDateToken(w.startedAtISO);
-                              if (exportFormat === "fit") {
-                                const fit = workoutToFIT(w, w.exportOpts, enhancedFitCompatibility);
-                                const fname = `mywellness-${w.source}-${safeDate}-${w.id}.fit`;
-                                downloadBlob(fname, new Blob([fit], { type: "application/octet-stream" }));
-                              } else {
-                                const tcx = workoutToTCX(w, w.exportOpts);
-                                const fname = `mywellness-${w.source}-${safeDate}-${w.id}.tcx`;
-                                downloadTextFile(fname, tcx);
-                              }
+                              const file = exportWorkout(w, exportFormat, exportSettings);
+                              downloadBlob(file.fileName, new Blob([file.data], { type: file.mime }));
+                              updateLedger(recordExports(ledger, [w], exportFormat));
                             }}
                           >
                             Download {exportFormat.toUpperCase()}
@@ -1728,6 +1666,7 @@ export default function App() {
                         <td style={tdCheck}></td>
                         <td style={tdCheck}></td>
                         <td style={tdCheck}></td>
+                        <td style={tdCheck}></td>
 
                         <td style={tdCheckCenter}>
                           <input
@@ -1785,14 +1724,160 @@ export default function App() {
                           <input
                             type="checkbox"
                             checked={w.exportOpts.includeVerticalAsAltitude}
-                            disabled={w.verticalM == null}
+                            disabled={w.verticalM == null && w.floors == null}
                             onChange={(e) => updateWorkoutOpts(w, { includeVerticalAsAltitude: e.target.checked })}
                             aria-label={`Include Vertical as Altitude for ${w.id}`}
                           />
                         </td>
 
-                        <td style={tdCheck}></td>
+                        <td style={tdCheckCenter}>
+                          <div style={{ display: "flex", gap: 10, justifyContent: "center" }}>
+                            <button
+                              type="button"
+                              onClick={() => toggleExpanded(setEditUids, w)}
+                              aria-expanded={editUids.has(w.uid)}
+                              style={linkButtonStyle}
+                            >
+                              {editUids.has(w.uid) ? "Done" : "Edit"}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => toggleExpanded(setChartUids, w)}
+                              aria-expanded={chartUids.has(w.uid)}
+                              style={linkButtonStyle}
+                            >
+                              {chartUids.has(w.uid) ? "Hide chart" : "Chart"}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => toggleExpanded(setDiagnosticsUids, w)}
+                              aria-expanded={diagnosticsUids.has(w.uid)}
+                              style={linkButtonStyle}
+                            >
+                              {diagnosticsUids.has(w.uid) ? "Hide diagnostics" : "Diagnostics"}
+                            </button>
+                          </div>
+                        </td>
                       </tr>
+
+                      {editUids.has(w.uid) && (
+                        <tr style={{ background: "#f8fafc" }}>
+                          <td style={tdCheck} colSpan={12}>
+                            <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "flex-start", ...subtleText, opacity: 1 }}>
+                              <label style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+                                Name
+                                <input
+                                  type="text"
+                                  value={w.activityName}
+                                  onChange={(e) => updateWorkout(w, { activityName: e.target.value })}
+                                  style={inputStyle}
+                                />
+                              </label>
+                              <label style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+                                Sport
+                                <select
+                                  value={sportPresetValue(w.sport)}
+                                  onChange={(e) =>
+                                    updateWorkout(w, {
+                                      sport: e.target.value ? SPORT_PRESETS[Number(e.target.value)].sport : undefined,
+                                    })
+                                  }
+                                  style={inputStyle}
+                                >
+                                  <option value="">Detect from name ({sportLabel(resolveSport({ ...w, sport: undefined }, exportSettings.sportRules))})</option>
+                                  {SPORT_PRESETS.map((p, i) => (
+                                    <option key={p.label} value={i}>
+                                      {p.label}
+                                    </option>
+                                  ))}
+                                </select>
+                              </label>
+                              {w.startTime == null && (
+                                <label style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+                                  Start (this browser’s time zone)
+                                  <input
+                                    type="datetime-local"
+                                    step={1}
+                                    value={toDateTimeLocalValue(w.startedAtISO)}
+                                    onChange={(e) => updateWorkoutStartedAt(w, e.target.value)}
+                                    style={inputStyle}
+                                  />
+                                </label>
+                              )}
+                              <label style={{ display: "flex", flexDirection: "column", gap: 4, flex: "1 1 240px" }}>
+                                Notes
+                                <textarea
+                                  value={w.notes ?? ""}
+                                  onChange={(e) => updateWorkout(w, { notes: e.target.value })}
+                                  rows={2}
+                                  style={{ ...inputStyle, fontFamily: "inherit" }}
+                                />
+                              </label>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+
+                      {chartUids.has(w.uid) && (
+                        <tr style={{ background: "#f8fafc" }}>
+                          <td style={tdCheck} colSpan={12}>
+                            <SeriesChart workout={w} settings={exportSettings} />
+                          </td>
+                        </tr>
+                      )}
+
+                      {diagnosticsUids.has(w.uid) && (() => {
+                        const roundTrip = roundTrips[w.uid];
+                        const roundTripText =
+                          roundTrip?.workout === w && roundTrip.settings === exportSettings ? roundTrip.text : undefined;
+                        const report = [
+                          formatDiagnostics(w, computeDiagnostics(w, exportSettings, diagnosticsGapSec)),
+                          roundTripText != null ? `\nRound trip (TCX/FIT/GPX parsed back):\n${roundTripText}` : "",
+                        ].join("\n").trimEnd();
+                        return (
+                          <tr style={{ background: "#f8fafc" }}>
+                            <td style={tdCheck} colSpan={12}>
+                              <div style={{ display: "flex", gap: 10, alignItems: "center", ...subtleText, opacity: 1 }}>
+                                <span style={{ fontWeight: 600 }}>Export diagnostics</span>
+                                <span>gaps over</span>
+                                <input
+                                  type="number"
+                                  min={1}
+                                  value={diagnosticsGapSec}
+                                  onChange={(e) => setDiagnosticsGapSec(Number(e.target.value))}
+                                  aria-label="Diagnostics gap threshold in seconds"
+                                  style={{ width: 60 }}
+                                />
+                                <span>s</span>
+                                <button
+                                  type="button"
+                                  onClick={() => void navigator.clipboard.writeText(report)}
+                                  style={linkButtonStyle}
+                                >
+                                  Copy
+                                </button>
+                                <button type="button" onClick={() => void runRoundTrip(w)} style={linkButtonStyle}>
+                                  Round-trip check
+                                </button>
+                              </div>
+                              <pre
+                                style={{
+                                  margin: "8px 0 0",
+                                  padding: 10,
+                                  border: "1px solid #cbd5e1",
+                                  borderRadius: 8,
+                                  background: "#ffffff",
+                                  fontSize: 12,
+                                  whiteSpace: "pre-wrap",
+                                  userSelect: "all",
+                                }}
+                              >
+                                {report}
+                              </pre>
+                            </td>
+                          </tr>
+                        );
+                      })()}
                     </Fragment>
                   ))}
                 </tbody>
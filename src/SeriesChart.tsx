@@ -0,0 +1,157 @@
+import { useMemo, useState } from "react";
+import { formatDuration } from "./converter/format";
+import { buildExportRecords } from "./converter/records";
+import type { ExportRecord } from "./converter/records";
+import type { ExportSettings, Workout } from "./converter/types";
+
+type Channel = "hr" | "watts" | "cadence" | "alt";
+
+const CHANNELS: Record<Channel, { label: string; unit: string; color: string }> = {
+  hr: { label: "HR", unit: "bpm", color: "#dc2626" },
+  watts: { label: "Power", unit: "W", color: "#2563eb" },
+  cadence: { label: "Cadence", unit: "spm", color: "#16a34a" },
+  alt: { label: "Vertical", unit: "m", color: "#9333ea" },
+};
+
+const WIDTH = 800;
+const HEIGHT = 200;
+const PAD_X = 8;
+const PAD_Y = 10;
+
+type Range = { min: number; max: number };
+
+function channelRange(records: ExportRecord[], channel: Channel): Range | undefined {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const r of records) {
+    const v = r[channel];
+    if (v == null) continue;
+    min = Math.min(min, v);
+    max = Math.max(max, v);
+  }
+  return Number.isFinite(min) ? { min, max } : undefined;
+}
+
+// Each channel is scaled to its own range so different units share one plot.
+function scaleY(v: number, range: Range): number {
+  const span = range.max - range.min;
+  const ratio = span > 0 ? (v - range.min) / span : 0.5;
+  return HEIGHT - PAD_Y - ratio * (HEIGHT - 2 * PAD_Y);
+}
+
+// Missing values break the line, so gaps the exporter leaves empty stay visible.
+function linePath(records: ExportRecord[], channel: Channel, x: (t: number) => number, range: Range): string {
+  let d = "";
+  let penDown = false;
+  for (const r of records) {
+    const v = r[channel];
+    if (v == null) {
+      penDown = false;
+      continue;
+    }
+    d += `${penDown ? "L" : "M"}${x(r.tSec).toFixed(1)},${scaleY(v, range).toFixed(1)}`;
+    penDown = true;
+  }
+  return d;
+}
+
+export default function SeriesChart({ workout, settings }: { workout: Workout; settings: ExportSettings }) {
+  const [visible, setVisible] = useState<Record<Channel, boolean>>({
+    hr: true,
+    watts: true,
+    cadence: true,
+    alt: true,
+  });
+
+  const records = useMemo(
+    () => buildExportRecords(workout, workout.exportOpts, settings),
+    [workout, settings],
+  );
+
+  const ranges = useMemo(() => {
+    const out: Partial<Record<Channel, Range>> = {};
+    for (const c of Object.keys(CHANNELS) as Channel[]) out[c] = channelRange(records, c);
+    return out;
+  }, [records]);
+
+  if (records.length < 2) {
+    return <div style={{ fontSize: 13 }}>Nothing to plot for this workout.</div>;
+  }
+
+  const endSec = records[records.length - 1].tSec;
+  const x = (t: number) => PAD_X + (endSec > 0 ? t / endSec : 0) * (WIDTH - 2 * PAD_X);
+  const anchors = workout.series?.length && workout.exportOpts.includeHrSeries ? workout.hrAnchors ?? [] : [];
+  const hrRange = ranges.hr;
+
+  return (
+    <div>
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center", fontSize: 13 }}>
+        {(Object.keys(CHANNELS) as Channel[]).map((c) => {
+          const range = ranges[c];
+          return (
+            <label key={c} style={{ display: "inline-flex", alignItems: "center", gap: 4, opacity: range ? 1 : 0.5 }}>
+              <input
+                type="checkbox"
+                checked={visible[c] && range != null}
+                disabled={range == null}
+                onChange={(e) => setVisible({ ...visible, [c]: e.target.checked })}
+              />
+              <span style={{ color: CHANNELS[c].color, fontWeight: 600 }}>{CHANNELS[c].label}</span>
+              {range && (
+                <span>
+                  {Math.round(range.min)}–{Math.round(range.max)} {CHANNELS[c].unit}
+                </span>
+              )}
+            </label>
+          );
+        })}
+        {workout.series?.length ? (
+          anchors.length > 0 && <span>● recorded HR readings; the HR line between them is resampled</span>
+        ) : (
+          <span>No series in this workout: values are estimated from averages.</span>
+        )}
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT + 16}`}
+        style={{ width: "100%", maxWidth: WIDTH, marginTop: 8, background: "#ffffff", border: "1px solid #cbd5e1", borderRadius: 8 }}
+        role="img"
+        aria-label={`Series preview for ${workout.activityName}`}
+      >
+        {[0, 0.25, 0.5, 0.75, 1].map((f) => (
+          <g key={f}>
+            <line x1={x(endSec * f)} x2={x(endSec * f)} y1={PAD_Y} y2={HEIGHT - PAD_Y} stroke="#e2e8f0" />
+            <text
+              x={x(endSec * f)}
+              y={HEIGHT + 10}
+              fontSize={10}
+              fill="#475569"
+              textAnchor={f === 0 ? "start" : f === 1 ? "end" : "middle"}
+            >
+              {f === 0 ? "0:00" : formatDuration(endSec * f)}
+            </text>
+          </g>
+        ))}
+        {(Object.keys(CHANNELS) as Channel[]).map((c) => {
+          const range = ranges[c];
+          if (!visible[c] || !range) return null;
+          return (
+            <path
+              key={c}
+              d={linePath(records, c, x, range)}
+              fill="none"
+              stroke={CHANNELS[c].color}
+              strokeWidth={1.5}
+              strokeOpacity={c === "hr" && anchors.length ? 0.6 : 1}
+            />
+          );
+        })}
+        {visible.hr && hrRange &&
+          anchors
+            .filter((a) => a.tSec <= endSec)
+            .map((a) => (
+              <circle key={a.tSec} cx={x(a.tSec)} cy={scaleY(a.hr, hrRange)} r={2.5} fill={CHANNELS.hr.color} />
+            ))}
+      </svg>
+    </div>
+  );
+}
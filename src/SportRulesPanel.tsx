@@ -0,0 +1,184 @@
+import { useState } from "react";
+import type { CSSProperties, ReactNode } from "react";
+import { DEFAULT_SPORT_RULES, FIT_SPORTS, FIT_SUB_SPORTS, TCX_SPORTS } from "./converter/sport";
+import type { FitSport, FitSubSport, SportRule, TcxSport, Workout } from "./converter/types";
+
+const inputStyle: CSSProperties = {
+  borderRadius: 8,
+  border: "1px solid #94a3b8",
+  padding: "2px 6px",
+  background: "#ffffff",
+  color: "#0f172a",
+};
+
+const linkButton: CSSProperties = {
+  border: "none",
+  background: "transparent",
+  color: "#1d4ed8",
+  cursor: "pointer",
+  textDecoration: "underline",
+  padding: 0,
+  fontSize: 13,
+};
+
+const cellStyle: CSSProperties = { padding: "4px 6px", borderBottom: "1px solid #e2e8f0", textAlign: "left" };
+
+const EMPTY_RULE: SportRule = { match: "", sport: { tcx: "Other", fit: "fitness_equipment" } };
+
+function sourceLabel(source?: Workout["source"]): string {
+  return source === "indoor" ? "Machine" : source === "outdoor" ? "Outdoor" : "Any";
+}
+
+function RuleRow({ rule, action }: { rule: SportRule; action?: ReactNode }) {
+  return (
+    <tr>
+      <td style={cellStyle}>
+        <code>{rule.match}</code>
+      </td>
+      <td style={cellStyle}>{sourceLabel(rule.source)}</td>
+      <td style={cellStyle}>{rule.sport.tcx}</td>
+      <td style={cellStyle}>
+        {rule.sport.fit}
+        {rule.sport.fitSubSport ? ` / ${rule.sport.fitSubSport}` : ""}
+      </td>
+      <td style={cellStyle}>{action}</td>
+    </tr>
+  );
+}
+
+export default function SportRulesPanel({
+  rules,
+  onChange,
+}: {
+  rules: SportRule[];
+  onChange: (rules: SportRule[]) => void;
+}) {
+  const [draft, setDraft] = useState<SportRule>(EMPTY_RULE);
+  return (
+    <div style={{ fontSize: 13 }}>
+      <div style={{ marginBottom: 6 }}>
+        Activity names are matched case-insensitively; separate alternatives with <code>|</code>. Your rules are
+        checked first, top to bottom, then the defaults. Rows with a sport set in the Edit panel keep it.
+      </div>
+      <table style={{ borderCollapse: "collapse", width: "100%" }}>
+        <thead>
+          <tr>
+            <th style={cellStyle}>Name contains</th>
+            <th style={cellStyle}>Type</th>
+            <th style={cellStyle}>TCX sport</th>
+            <th style={cellStyle}>FIT sport / sub-sport</th>
+            <th style={cellStyle}></th>
+          </tr>
+        </thead>
+        <tbody>
+          {rules.map((rule, i) => (
+            <RuleRow
+              key={`${i}-${rule.match}`}
+              rule={rule}
+              action={
+                <button type="button" style={linkButton} onClick={() => onChange(rules.filter((_, j) => j !== i))}>
+                  Remove
+                </button>
+              }
+            />
+          ))}
+          <tr>
+            <td style={cellStyle}>
+              <input
+                type="text"
+                placeholder="e.g. skillrow|rower"
+                value={draft.match}
+                onChange={(e) => setDraft({ ...draft, match: e.target.value })}
+                aria-label="Activity name contains"
+                style={inputStyle}
+              />
+            </td>
+            <td style={cellStyle}>
+              <select
+                value={draft.source ?? ""}
+                onChange={(e) =>
+                  setDraft({ ...draft, source: (e.target.value || undefined) as Workout["source"] | undefined })
+                }
+                aria-label="Workout type"
+                style={inputStyle}
+              >
+                <option value="">Any</option>
+                <option value="indoor">Machine</option>
+                <option value="outdoor">Outdoor</option>
+              </select>
+            </td>
+            <td style={cellStyle}>
+              <select
+                value={draft.sport.tcx}
+                onChange={(e) => setDraft({ ...draft, sport: { ...draft.sport, tcx: e.target.value as TcxSport } })}
+                aria-label="TCX sport"
+                style={inputStyle}
+              >
+                {TCX_SPORTS.map((s) => (
+                  <option key={s} value={s}>
+                    {s}
+                  </option>
+                ))}
+              </select>
+            </td>
+            <td style={cellStyle}>
+              <select
+                value={draft.sport.fit}
+                onChange={(e) => setDraft({ ...draft, sport: { ...draft.sport, fit: e.target.value as FitSport } })}
+                aria-label="FIT sport"
+                style={inputStyle}
+              >
+                {FIT_SPORTS.map((s) => (
+                  <option key={s} value={s}>
+                    {s}
+                  </option>
+                ))}
+              </select>{" "}
+              <select
+                value={draft.sport.fitSubSport ?? ""}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    sport: { ...draft.sport, fitSubSport: (e.target.value || undefined) as FitSubSport | undefined },
+                  })
+                }
+                aria-label="FIT sub-sport"
+                style={inputStyle}
+              >
+                <option value="">(none)</option>
+                {FIT_SUB_SPORTS.map((s) => (
+                  <option key={s} value={s}>
+                    {s}
+                  </option>
+                ))}
+              </select>
+            </td>
+            <td style={cellStyle}>
+              <button
+                type="button"
+                style={linkButton}
+                disabled={!draft.match.trim()}
+                onClick={() => {
+                  onChange([...rules, { ...draft, match: draft.match.trim() }]);
+                  setDraft(EMPTY_RULE);
+                }}
+              >
+                Add rule
+              </button>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+      <details style={{ marginTop: 8 }}>
+        <summary style={{ cursor: "pointer" }}>Default rules ({DEFAULT_SPORT_RULES.length})</summary>
+        <table style={{ borderCollapse: "collapse", width: "100%", marginTop: 4 }}>
+          <tbody>
+            {DEFAULT_SPORT_RULES.map((rule, i) => (
+              <RuleRow key={i} rule={rule} />
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { HR_ZONE_METHOD_LABELS } from "./converter/hrzones";
+import type { AthleteProfile, HrZoneMethod } from "./converter/types";
+
+// FTP, threshold HR and the HR zone profile, kept in localStorage.
+
+const STORAGE_KEY = "mywellness2tcx.athleteProfile";
+
+function positiveNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+export function loadAthleteProfile(): AthleteProfile {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    if (!parsed || typeof parsed !== "object") return {};
+    const { ftpW, thresholdHr, maxHr, restingHr, hrZoneMethod, hrZoneBoundsPct } = parsed as Record<string, unknown>;
+    const bounds = Array.isArray(hrZoneBoundsPct) ? hrZoneBoundsPct.map(positiveNumber) : undefined;
+    return {
+      ftpW: positiveNumber(ftpW),
+      thresholdHr: positiveNumber(thresholdHr),
+      maxHr: positiveNumber(maxHr),
+      restingHr: positiveNumber(restingHr),
+      hrZoneMethod: Object.hasOwn(HR_ZONE_METHOD_LABELS, String(hrZoneMethod))
+        ? (hrZoneMethod as HrZoneMethod)
+        : undefined,
+      hrZoneBoundsPct: bounds?.length && bounds.every((b) => b != null) ? (bounds as number[]) : undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+export function saveAthleteProfile(profile: AthleteProfile) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+}
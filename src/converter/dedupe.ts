@@ -0,0 +1,184 @@
+import { asRecord } from "./parse";
+import { DEFAULT_SPORT_RULES, ruleMatches } from "./sport";
+import { formatInTimeZone } from "./timezone";
+import type { Workout, WorkoutSport } from "./types";
+
+export const DEFAULT_DUPLICATE_START_TOLERANCE_SEC = 120;
+
+// Relative tolerance with an absolute floor, so short or low-calorie sessions
+// are not held to a few seconds/kcal.
+const DURATION_TOLERANCE = { ratio: 0.05, minAbs: 60 };
+const CALORIE_TOLERANCE = { ratio: 0.1, minAbs: 10 };
+
+export type DuplicateGroup = {
+  key: string;
+  uids: string[];
+  preferredUid: string;
+};
+
+function startMs(w: Workout): number | undefined {
+  if (!w.startedAtISO) return undefined;
+  const ms = new Date(w.startedAtISO).getTime();
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+// Single-page JSON rows (uid "json-…", see extractWorkoutFromSinglePageJSON).
+// A ZIP row that gained a pasted series keeps its ZIP uid.
+function isPasted(w: Workout): boolean {
+  return w.uid.startsWith("json-");
+}
+
+function close(
+  a: number | undefined,
+  b: number | undefined,
+  tol: { ratio: number; minAbs: number },
+): boolean | undefined {
+  if (a == null || b == null) return undefined;
+  return Math.abs(a - b) <= Math.max(tol.minAbs, tol.ratio * Math.max(a, b));
+}
+
+// A pasted workout's time of day is whatever the user set, so only its
+// calendar day counts, compared in the zone its start was resolved in.
+// Otherwise the starts must lie within `toleranceSec`.
+function startsMatch(a: Workout, b: Workout, toleranceSec: number): boolean {
+  const ta = startMs(a);
+  const tb = startMs(b);
+  if (ta == null || tb == null) return false;
+  const pasted = [a, b].find((w) => w.startDate != null && w.startTimeZone != null);
+  if (!pasted?.startDate || !pasted.startTimeZone) return Math.abs(ta - tb) <= toleranceSec * 1000;
+  const other = pasted === a ? b : a;
+  const otherDay = other.startDate ?? formatInTimeZone(other.startedAtISO ?? "", pasted.startTimeZone).slice(0, 10);
+  return otherDay === pasted.startDate;
+}
+
+function equipmentType(w: Workout): string | undefined {
+  const equipment = asRecord(w.raw)?.equipmentType;
+  return typeof equipment === "string" && equipment.trim() ? equipment.trim().toLowerCase() : undefined;
+}
+
+// The user's sport, or the first built-in rule the name matches; undefined
+// when only the generic indoor/outdoor fallback would apply.
+function knownSport(w: Workout): WorkoutSport | undefined {
+  return w.sport ?? DEFAULT_SPORT_RULES.find((rule) => ruleMatches(rule, w))?.sport;
+}
+
+function sameActivity(a: Workout, b: Workout): boolean {
+  const name = (w: Workout) => w.activityName.trim().toLowerCase();
+  if (name(a) && name(a) === name(b)) return true;
+  const equipment = equipmentType(a);
+  if (equipment && equipment === equipmentType(b)) return true;
+  const sa = knownSport(a);
+  const sb = knownSport(b);
+  return sa != null && sb != null && sa.tcx === sb.tcx && sa.fit === sb.fit && sa.fitSubSport === sb.fitSubSport;
+}
+
+// Within one source an equal id is the same workout (overlapping ZIP files, a
+// payload pasted twice) unless the starts disagree. ZIP and pasted ids do not
+// share a namespace, so across sources, and for rows without a shared id, the
+// activity, the start and the duration/calories must all agree.
+export function isProbableDuplicate(a: Workout, b: Workout, toleranceSec: number): boolean {
+  if (!startsMatch(a, b, toleranceSec)) return false;
+  if (isPasted(a) === isPasted(b) && a.id === b.id) return true;
+  if (!sameActivity(a, b)) return false;
+
+  const checks = [
+    close(a.durationSec, b.durationSec, DURATION_TOLERANCE),
+    close(a.calories, b.calories, CALORIE_TOLERANCE),
+  ].filter((x): x is boolean => x != null);
+  return checks.length > 0 && checks.every(Boolean);
+}
+
+// Prefer the version with a sampled series (single-page JSON), then the one
+// with more HR readings, then the one with more summary metrics.
+export function preferredDuplicate(ws: Workout[]): Workout {
+  const score = (w: Workout) => [w.series?.length ?? 0, w.hrAnchors?.length ?? 0, w.metricKeys.length];
+  return ws.reduce((best, w) => {
+    const sb = score(best);
+    const sw = score(w);
+    for (let i = 0; i < sb.length; i++) {
+      if (sw[i] !== sb[i]) return sw[i] > sb[i] ? w : best;
+    }
+    return best;
+  });
+}
+
+export function findDuplicateGroups(
+  ws: Workout[],
+  toleranceSec = DEFAULT_DUPLICATE_START_TOLERANCE_SEC,
+): DuplicateGroup[] {
+  // Union-find over all probable-duplicate pairs.
+  const parent = ws.map((_, i) => i);
+  const root = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  for (let i = 0; i < ws.length; i++) {
+    for (let j = i + 1; j < ws.length; j++) {
+      if (isProbableDuplicate(ws[i], ws[j], toleranceSec)) parent[root(j)] = root(i);
+    }
+  }
+
+  const members = new Map<number, Workout[]>();
+  ws.forEach((w, i) => {
+    const r = root(i);
+    members.set(r, [...(members.get(r) ?? []), w]);
+  });
+
+  return [...members.values()]
+    .filter((group) => group.length > 1)
+    .map((group) => {
+      const uids = group.map((w) => w.uid).sort();
+      return { key: uids.join("|"), uids, preferredUid: preferredDuplicate(group).uid };
+    });
+}
+
+// The summary-only workout (ZIP `pr` metrics, no series) that the pasted detail
+// workout describes. Undefined when none or several rows qualify: picking one
+// of several would attach the series to a guess.
+export function findSummaryMatch(
+  detail: Workout,
+  ws: Workout[],
+  toleranceSec = DEFAULT_DUPLICATE_START_TOLERANCE_SEC,
+): Workout | undefined {
+  const candidates = ws.filter(
+    (w) => w.uid !== detail.uid && !w.series?.length && isProbableDuplicate(w, detail, toleranceSec),
+  );
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+// Attaches the pasted series to the summary row. The summary keeps its `on`
+// start timestamp, identity and totals; the detail only fills metrics the
+// summary lacks, so no start-time guess is involved.
+export function mergeDetailIntoSummary(summary: Workout, detail: Workout): Workout {
+  const metrics = { ...detail.metrics, ...summary.metrics };
+  const a = summary.exportOpts;
+  const b = detail.exportOpts;
+  return {
+    ...summary,
+    durationSec: summary.durationSec ?? detail.durationSec,
+    calories: summary.calories ?? detail.calories,
+    distanceM: summary.distanceM ?? detail.distanceM,
+    verticalM: summary.verticalM ?? detail.verticalM,
+    floors: summary.floors ?? detail.floors,
+    steps: summary.steps ?? detail.steps,
+    cadenceSpm: summary.cadenceSpm ?? detail.cadenceSpm,
+    strokes: summary.strokes ?? detail.strokes,
+    metrics,
+    metricKeys: Object.keys(metrics).sort(),
+    // Channels the series provides are switched on.
+    exportOpts: {
+      ...a,
+      includeHrSeries: a.includeHrSeries || b.includeHrSeries,
+      includeCadenceSeries: a.includeCadenceSeries || b.includeCadenceSeries,
+      includePowerSeries: a.includePowerSeries || b.includePowerSeries,
+      includeDistance: a.includeDistance || b.includeDistance,
+      includeVerticalAsAltitude: a.includeVerticalAsAltitude || b.includeVerticalAsAltitude,
+    },
+    series: detail.series,
+    extraChannels: detail.extraChannels,
+    hrAnchors: detail.hrAnchors,
+  };
+}
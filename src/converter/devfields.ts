@@ -0,0 +1,71 @@
+import type { FitDevInfo, FitWriter } from "@markw65/fit-file-writer";
+import { asRecord } from "./parse";
+import type { Workout } from "./types";
+
+// FIT developer fields for MyWellness values that have no native FIT field:
+// every workout metric goes on the session, every unmapped sample column on
+// the records.
+
+// "mywellness2tcx" padded to the 16 bytes of a FIT application id, so tools
+// can tell these fields apart from other apps' developer data.
+const APPLICATION_ID = [..."mywellness2tcx"].map((c) => c.charCodeAt(0)).concat([0, 0]);
+const DEVELOPER_DATA_INDEX = 0;
+// field_definition_number is a uint8.
+const MAX_DEVELOPER_FIELDS = 255;
+
+export type DeveloperFields = {
+  session: FitDevInfo[];
+  recordFieldNums: Map<string, number>;
+};
+
+// Writes developer_data_id and one field_description per field. Must run
+// before any message that carries the fields.
+export function writeDeveloperFieldDescriptions(fit: FitWriter, w: Workout): DeveloperFields {
+  const session: FitDevInfo[] = [];
+  const recordFieldNums = new Map<string, number>();
+  let next = 0;
+
+  fit.writeMessage("developer_data_id", {
+    application_id: APPLICATION_ID,
+    application_version: 1,
+    developer_data_index: DEVELOPER_DATA_INDEX,
+  }, null, true);
+
+  const describe = (name: string, mesg: "session" | "record", type: "float32" | "string", units?: string) => {
+    const num = next++;
+    fit.writeMessage("field_description", {
+      developer_data_index: DEVELOPER_DATA_INDEX,
+      field_definition_number: num,
+      fit_base_type_id: type,
+      field_name: name,
+      units,
+      native_mesg_num: mesg,
+    }, null, true);
+    return num;
+  };
+
+  const equipmentType = asRecord(w.raw)?.equipmentType;
+  if (typeof equipmentType === "string" && equipmentType) {
+    session.push({ field_num: describe("EquipmentType", "session", "string"), value: equipmentType });
+  }
+  for (const [name, value] of Object.entries(w.metrics)) {
+    if (next >= MAX_DEVELOPER_FIELDS) break;
+    if (Number.isFinite(value)) session.push({ field_num: describe(name, "session", "float32"), value });
+  }
+  for (const channel of w.extraChannels ?? []) {
+    if (next >= MAX_DEVELOPER_FIELDS) break;
+    recordFieldNums.set(channel.name, describe(channel.name, "record", "float32", channel.unit));
+  }
+
+  return { session, recordFieldNums };
+}
+
+export function recordDeveloperValues(fields: DeveloperFields, extras?: Record<string, number>): FitDevInfo[] | null {
+  if (!extras) return null;
+  const values: FitDevInfo[] = [];
+  for (const [name, value] of Object.entries(extras)) {
+    const num = fields.recordFieldNums.get(name);
+    if (num != null && Number.isFinite(value)) values.push({ field_num: num, value });
+  }
+  return values.length ? values : null;
+}
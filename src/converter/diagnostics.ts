@@ -0,0 +1,132 @@
+import { buildExportRecords, workoutStartMs } from "./records";
+import type { ExportRecord } from "./records";
+import { DEFAULT_EXPORT_SETTINGS } from "./settings";
+import type { ExportSettings, Workout } from "./types";
+
+export const DEFAULT_DIAGNOSTICS_GAP_SEC = 10;
+
+// Where an exported channel's values come from:
+// - sourced: per-sample values from the payload
+// - synthetic: spread from a summary total/average (the 5-second fallback path)
+// - off: not exported (missing or unticked)
+export type ChannelSource = "sourced" | "synthetic" | "off";
+
+export type TimeGap = {
+  startSec: number;
+  endSec: number;
+};
+
+export type ExportDiagnostics = {
+  recordCount: number;
+  synthetic: boolean;
+  hrAnchorCount: number;
+  hrPct: number;
+  cadencePct: number;
+  powerPct: number;
+  firstTimestamp?: string;
+  lastTimestamp?: string;
+  gapThresholdSec: number;
+  recordGaps: TimeGap[];
+  hrGaps: TimeGap[];
+  sources: {
+    hr: ChannelSource;
+    cadence: ChannelSource;
+    power: ChannelSource;
+    distance: ChannelSource;
+    altitude: ChannelSource;
+  };
+};
+
+function pct(records: ExportRecord[], pick: (r: ExportRecord) => unknown): number {
+  if (!records.length) return 0;
+  return (records.filter((r) => pick(r) != null).length / records.length) * 100;
+}
+
+function findGaps(times: number[], thresholdSec: number): TimeGap[] {
+  const gaps: TimeGap[] = [];
+  for (let i = 1; i < times.length; i++) {
+    if (times[i] - times[i - 1] > thresholdSec) {
+      gaps.push({ startSec: times[i - 1], endSec: times[i] });
+    }
+  }
+  return gaps;
+}
+
+function channelSource(
+  enabled: boolean,
+  records: ExportRecord[],
+  pick: (r: ExportRecord) => unknown,
+  sampled: boolean,
+): ChannelSource {
+  if (!enabled || !records.some((r) => pick(r) != null)) return "off";
+  return sampled ? "sourced" : "synthetic";
+}
+
+export function computeDiagnostics(
+  w: Workout,
+  settings: ExportSettings = DEFAULT_EXPORT_SETTINGS,
+  gapThresholdSec = DEFAULT_DIAGNOSTICS_GAP_SEC,
+): ExportDiagnostics {
+  const opts = w.exportOpts;
+  const records = buildExportRecords(w, opts, settings);
+  const series = w.series ?? [];
+  const synthetic = series.length === 0;
+  const startMs = workoutStartMs(w);
+
+  const hrAnchorTimes = (w.hrAnchors ?? series.filter((p) => p.hr != null)).map((p) => p.tSec);
+  const hrRecordTimes = records.filter((r) => r.hr != null).map((r) => r.tSec);
+  const first = records[0];
+  const last = records[records.length - 1];
+
+  return {
+    recordCount: records.length,
+    synthetic,
+    hrAnchorCount: synthetic ? 0 : hrAnchorTimes.length,
+    hrPct: pct(records, (r) => r.hr),
+    cadencePct: pct(records, (r) => r.cadence),
+    powerPct: pct(records, (r) => r.watts),
+    firstTimestamp: first ? new Date(startMs + first.tSec * 1000).toISOString() : undefined,
+    lastTimestamp: last ? new Date(startMs + last.tSec * 1000).toISOString() : undefined,
+    gapThresholdSec,
+    recordGaps: findGaps(records.map((r) => r.tSec), gapThresholdSec),
+    // HR gaps are judged on what gets written, so they reflect the resampling mode.
+    hrGaps: synthetic ? [] : findGaps(hrRecordTimes, gapThresholdSec),
+    sources: {
+      hr: channelSource(opts.includeHrSeries, records, (r) => r.hr, hrAnchorTimes.length > 0 && !synthetic),
+      cadence: channelSource(opts.includeCadenceSeries, records, (r) => r.cadence, series.some((p) => p.cadence != null)),
+      power: channelSource(opts.includePowerSeries, records, (r) => r.watts, series.some((p) => p.watts != null)),
+      distance: channelSource(
+        opts.includeDistance,
+        records,
+        (r) => (r.dist > 0 ? r.dist : undefined),
+        series.some((p) => p.distanceM != null),
+      ),
+      altitude: channelSource(
+        opts.includeVerticalAsAltitude,
+        records,
+        (r) => r.alt,
+        series.some((p) => p.verticalM != null || p.floors != null),
+      ),
+    },
+  };
+}
+
+function formatGaps(gaps: TimeGap[]): string {
+  if (!gaps.length) return "none";
+  const shown = gaps.slice(0, 5).map((g) => `${g.startSec}s→${g.endSec}s`);
+  return gaps.length > 5 ? `${shown.join(", ")} (+${gaps.length - 5} more)` : shown.join(", ");
+}
+
+// Plain-text summary meant to be pasted into bug reports.
+export function formatDiagnostics(w: Workout, d: ExportDiagnostics): string {
+  return [
+    `Workout: ${w.activityName} (${w.source}, id ${w.id})`,
+    `Records: ${d.recordCount} (${d.synthetic ? "synthetic 5 s fallback, no series" : "from series"})`,
+    `HR anchors: ${d.hrAnchorCount}`,
+    `Coverage: HR ${d.hrPct.toFixed(0)}%, cadence ${d.cadencePct.toFixed(0)}%, power ${d.powerPct.toFixed(0)}%`,
+    `First/last: ${d.firstTimestamp ?? "—"} / ${d.lastTimestamp ?? "—"}`,
+    `Record gaps > ${d.gapThresholdSec}s: ${formatGaps(d.recordGaps)}`,
+    `HR gaps > ${d.gapThresholdSec}s: ${formatGaps(d.hrGaps)}`,
+    `Sources: ${Object.entries(d.sources).map(([k, v]) => `${k}=${v}`).join(", ")}`,
+  ].join("\n");
+}
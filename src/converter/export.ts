@@ -0,0 +1,31 @@
+import { workoutToFIT } from "./fit";
+import { exportFileName } from "./format";
+import { workoutToGPX } from "./gpx";
+import { DEFAULT_EXPORT_SETTINGS } from "./settings";
+import { workoutToTCX } from "./tcx";
+import type { ExportFormat, ExportSettings, Workout } from "./types";
+
+export type ExportedFile = {
+  fileName: string;
+  mime: string;
+  data: string | ArrayBuffer;
+};
+
+export function exportWorkout(
+  w: Workout,
+  format: ExportFormat,
+  settings: ExportSettings = DEFAULT_EXPORT_SETTINGS,
+): ExportedFile {
+  const fileName = exportFileName(w, format);
+  if (format === "fit") {
+    return {
+      fileName,
+      mime: "application/octet-stream",
+      data: workoutToFIT(w, w.exportOpts, settings),
+    };
+  }
+  if (format === "gpx") {
+    return { fileName, mime: "application/gpx+xml", data: workoutToGPX(w, w.exportOpts, settings) };
+  }
+  return { fileName, mime: "application/xml", data: workoutToTCX(w, w.exportOpts, settings) };
+}
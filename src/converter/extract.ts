@@ -0,0 +1,488 @@
+import type JSZip from "jszip";
+import { formatDateHuman } from "./format";
+import {
+  asNumberArray,
+  asRecord,
+  average,
+  parseDurationString,
+  pickCadenceSpm,
+  isLengthUnit,
+  pickDistanceM,
+  pickFloors,
+  pickStepCount,
+  pickStrokeCount,
+  pickVerticalM,
+  prToMap,
+  safeNumber,
+  toMetersFromUnit,
+  toMetersPerSecondFromUnit,
+  toSecondsPer500mFromUnit,
+} from "./parse";
+import { hrAtTime } from "./hr";
+import { browserTimeZone, isValidTimeZone, zonedDateTimeToUtcMs } from "./timezone";
+import { fillDistanceFromSpeed, fillSpeedFromDistance } from "./records";
+import { DEFAULT_EXPORT_SETTINGS } from "./settings";
+import type { ExtraChannel, SeriesPoint, Workout } from "./types";
+
+// Stroke totals, as sample columns or summary items. Names such as StrokeSpm,
+// StrokeLength or StrokeDistance are other quantities.
+const STROKE_COUNT_KEYS = ["strokes", "strokecount", "totalstrokes"];
+
+export function extractWorkoutsFromIndoorJSON(obj: unknown): Workout[] {
+  const items = Array.isArray(obj) ? obj : [];
+  return items.map((raw: unknown, idx: number) => {
+    const rawRec = asRecord(raw);
+    const metrics = prToMap(raw);
+    const startedAt = rawRec?.on;
+    const durationSec = metrics["Duration"];
+    const calories = metrics["Calories"];
+    const distanceM = pickDistanceM(metrics);
+    const verticalM = pickVerticalM(metrics);
+    const floors = pickFloors(metrics);
+    const steps = pickStepCount(metrics);
+    const cadenceSpm = pickCadenceSpm(metrics);
+    const strokes = pickStrokeCount(metrics);
+
+    // Best-effort naming (improve later using facility metadata if present)
+    const activityName =
+      rawRec?.activityName ||
+      (floors != null ? "Stair climber" : "Indoor workout");
+
+    const id = String(rawRec?.id ?? `${startedAt ?? "ind"}-${idx}`);
+    const uid = `indoor-${String(startedAt ?? "unknown")}-${id}-${idx}`;
+
+    return {
+      uid,
+      source: "indoor",
+      id,
+      startedAtISO: typeof startedAt === "string" ? startedAt : undefined,
+      startedAtDisplay:
+        typeof startedAt === "string" ? formatDateHuman(startedAt) : "—",
+      activityName: String(activityName),
+      durationSec,
+      distanceM,
+      calories,
+      verticalM,
+      floors,
+      steps,
+      cadenceSpm,
+      strokes,
+      metrics,
+      metricKeys: Object.keys(metrics).sort(),
+      raw,
+
+      exportOpts: {
+        includeHrSeries: metrics["AvgHr"] != null || metrics["MaxHr"] != null,
+        includeCadenceSeries: cadenceSpm != null || metrics["AvgSpm"] != null || metrics["Cadence"] != null,
+        includePowerSeries: metrics["AvgPower"] != null,
+        includeMetricsInNotes: false,
+        includeCalories: calories != null,
+        includeDistance: distanceM != null,
+        includeVerticalAsAltitude: verticalM != null || floors != null,
+      },
+    };
+  });
+}
+
+export function extractWorkoutsFromOutdoorJSON(obj: unknown): Workout[] {
+  const objRec = asRecord(obj);
+  const items = Array.isArray(obj)
+    ? obj
+    : (objRec?.items ?? objRec?.activities ?? objRec?.data ?? []);
+  if (!Array.isArray(items)) return [];
+
+  return items.map((raw: unknown, idx: number) => {
+    const rawRec = asRecord(raw);
+    const metrics = prToMap(raw);
+    const durationSec =
+      metrics["Duration"] ??
+      safeNumber(rawRec?.duration) ??
+      safeNumber(rawRec?.Duration);
+    const calories =
+      metrics["Calories"] ??
+      safeNumber(rawRec?.calories) ??
+      safeNumber(rawRec?.Calories);
+    const distanceM = pickDistanceM(metrics);
+    const verticalM = pickVerticalM(metrics);
+    const floors = pickFloors(metrics);
+    const steps = pickStepCount(metrics);
+    const cadenceSpm = pickCadenceSpm(metrics);
+    const strokes = pickStrokeCount(metrics);
+
+    const startedAt = rawRec?.performedDate ?? rawRec?.on;
+    const activityName =
+      rawRec?.activityName ?? rawRec?.physicalActivityName ?? "Outdoor workout";
+    const id = String(rawRec?.id ?? rawRec?.uuid ?? `${startedAt ?? "out"}-${idx}`);
+    const uid = `outdoor-${String(startedAt ?? "unknown")}-${id}-${idx}`;
+
+    return {
+      uid,
+      source: "outdoor",
+      id,
+      startedAtISO: typeof startedAt === "string" ? startedAt : undefined,
+      startedAtDisplay:
+        typeof startedAt === "string" ? formatDateHuman(startedAt) : "—",
+      activityName: String(activityName),
+      durationSec,
+      calories,
+      distanceM,
+      verticalM,
+      floors,
+      steps,
+      cadenceSpm,
+      strokes,
+      metrics,
+      metricKeys: Object.keys(metrics).sort(),
+      raw,
+
+      exportOpts: {
+        includeHrSeries: metrics["AvgHr"] != null || metrics["MaxHr"] != null,
+        includeCadenceSeries: cadenceSpm != null || metrics["AvgSpm"] != null || metrics["Cadence"] != null,
+        includePowerSeries: metrics["AvgPower"] != null,
+        includeMetricsInNotes: false,
+        includeCalories: calories != null,
+        includeDistance: distanceM != null,
+        includeVerticalAsAltitude: verticalM != null || floors != null,
+      },
+    };
+  });
+}
+
+// Combines a workout date with a time of day in an IANA zone. Single-workout
+// JSON only has a date, so the time comes from the user (HH:MM or HH:MM:SS).
+export function applyStartTime(date: string, time: string, timeZone: string): string | undefined {
+  const d = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const match = time.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!d || !match || !isValidTimeZone(timeZone)) return undefined;
+  const hh = Number(match[1]);
+  const mm = Number(match[2]);
+  const ss = Number(match[3] ?? "0");
+  if (
+    !(Number.isFinite(hh) && hh >= 0 && hh < 24 &&
+      Number.isFinite(mm) && mm >= 0 && mm < 60 &&
+      Number.isFinite(ss) && ss >= 0 && ss < 60)
+  ) {
+    return undefined;
+  }
+  const ms = zonedDateTimeToUtcMs(
+    { year: Number(d[1]), month: Number(d[2]), day: Number(d[3]) },
+    { hour: hh, minute: mm, second: ss },
+    timeZone,
+  );
+  return Number.isNaN(ms) ? undefined : new Date(ms).toISOString();
+}
+
+// The payload date as written (`2026-02-13` or `2026-02-13T00:00:00`), without
+// letting Date parsing shift it into another day.
+function calendarDate(dateStr: string | undefined): string | undefined {
+  if (!dateStr) return undefined;
+  const literal = dateStr.match(/^(\d{4}-\d{2}-\d{2})/);
+  if (literal) return literal[1];
+  const dt = new Date(dateStr);
+  if (Number.isNaN(dt.getTime())) return undefined;
+  return `${dt.getFullYear()}-${String(dt.getMonth() + 1).padStart(2, "0")}-${String(dt.getDate()).padStart(2, "0")}`;
+}
+
+// Accepts one payload, a JSON array of payloads, or newline-delimited payloads.
+export function parseSinglePagePayloads(text: string): unknown[] {
+  try {
+    const parsed = JSON.parse(text) as unknown;
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch (e: unknown) {
+    const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+    if (lines.length < 2) throw e;
+    return lines.map((line, i) => {
+      try {
+        return JSON.parse(line) as unknown;
+      } catch (lineErr: unknown) {
+        const msg = lineErr instanceof Error ? lineErr.message : String(lineErr);
+        throw new Error(`line ${i + 1}: ${msg}`, { cause: lineErr });
+      }
+    });
+  }
+}
+
+export function extractWorkoutFromSinglePageJSON(
+  obj: unknown,
+  preferredStartTime?: string,
+  timeZone: string = browserTimeZone(),
+): Workout | null {
+  const root = asRecord(obj);
+  const core = asRecord(root?.data) ?? root;
+  if (!core) return null;
+
+  const analytics = asRecord(core.analitics);
+  const descriptors = Array.isArray(analytics?.descriptor) ? analytics.descriptor : [];
+  const samples = Array.isArray(analytics?.samples) ? analytics.samples : [];
+  const hrSamples = Array.isArray(analytics?.hr) ? analytics.hr : [];
+  const summaryData = Array.isArray(core.data) ? core.data : [];
+
+  const descriptorByIndex = new Map<number, string>();
+  const descriptorUnitByIndex = new Map<number, string>();
+  for (const d of descriptors) {
+    const rec = asRecord(d);
+    const i = safeNumber(rec?.i);
+    const pr = asRecord(rec?.pr);
+    const name = typeof pr?.name === "string" ? pr.name : undefined;
+    const unit = typeof pr?.um === "string" ? pr.um : undefined;
+    if (i != null && name) descriptorByIndex.set(i, name);
+    if (i != null && unit) descriptorUnitByIndex.set(i, unit);
+  }
+
+  const hrByT = new Map<number, number>();
+  for (const h of hrSamples) {
+    const rec = asRecord(h);
+    const t = safeNumber(rec?.t);
+    const hr = safeNumber(rec?.hr);
+    if (t != null && hr != null) hrByT.set(Math.round(t), hr);
+  }
+  const hrAnchors = [...hrByT.entries()]
+    .map(([tSec, hr]) => ({ tSec, hr }))
+    .sort((a, b) => a.tSec - b.tSec);
+  const series: SeriesPoint[] = [];
+  let sampleDistanceM: number | undefined;
+  for (const s of samples) {
+    const rec = asRecord(s);
+    const t = safeNumber(rec?.t);
+    const vs = asNumberArray(rec?.vs);
+    if (t == null) continue;
+
+    const point: SeriesPoint = { tSec: Math.max(0, Math.round(t)) };
+    for (let idx = 0; idx < vs.length; idx++) {
+      const key = descriptorByIndex.get(idx)?.toLowerCase();
+      const value = vs[idx];
+      if (!key) continue;
+      const unit = descriptorUnitByIndex.get(idx);
+      if (key === "power" || key === "runningpower") {
+        point.watts = value;
+      } else if (
+        key === "spm" ||
+        key === "rpm" ||
+        key === "cadence" ||
+        key === "runningcadence" ||
+        key === "strokerate" ||
+        key === "strokespm"
+      ) {
+        point.cadence = value;
+      } else if (STROKE_COUNT_KEYS.includes(key)) {
+        point.strokes = value;
+      } else if (key === "split" || key === "split500" || key === "splittime" || key === "pace500") {
+        if (value > 0) point.splitSec = toSecondsPer500mFromUnit(value, unit);
+      } else if (key === "elevation" || (key === "floors" && isLengthUnit(unit))) {
+        point.verticalM = toMetersFromUnit(value, unit);
+      } else if (key === "floors") {
+        point.floors = value;
+      } else if (key === "hdistance" || key === "distance") {
+        const distM = toMetersFromUnit(value, unit);
+        point.distanceM = distM;
+        sampleDistanceM = sampleDistanceM == null ? distM : Math.max(sampleDistanceM, distM);
+      } else if (key === "speed" || key === "hspeed" || key === "treadmillspeed") {
+        point.speedMps = toMetersPerSecondFromUnit(value, unit);
+      } else if (key === "incline" || key === "grade" || key === "slope" || key === "gradient") {
+        point.gradePct = value;
+      } else {
+        // Kept under the descriptor's own name for FIT developer fields.
+        point.extras = { ...point.extras, [descriptorByIndex.get(idx) ?? key]: value };
+      }
+    }
+    if (point.speedMps == null && point.splitSec != null) point.speedMps = 500 / point.splitSec;
+    const hr = hrAtTime(hrAnchors, point.tSec, DEFAULT_EXPORT_SETTINGS.hrResampling);
+    if (hr != null) point.hr = Math.round(hr);
+    series.push(point);
+  }
+
+  series.sort((a, b) => a.tSec - b.tSec);
+  const extraChannels: ExtraChannel[] = [...descriptorByIndex.entries()]
+    .filter(([, name]) => series.some((p) => p.extras?.[name] != null))
+    .map(([i, name]) => ({ name, unit: descriptorUnitByIndex.get(i) }));
+  const integratedDistanceM = sampleDistanceM == null ? fillDistanceFromSpeed(series) : undefined;
+  fillSpeedFromDistance(series);
+
+  let durationSec = series.length ? series[series.length - 1].tSec : undefined;
+  let move: number | undefined;
+  let summaryDistanceM: number | undefined;
+  let summaryVerticalM: number | undefined;
+  let summaryFloors: number | undefined;
+  let calories: number | undefined;
+  let summaryStrokes: number | undefined;
+  for (const item of summaryData) {
+    const rec = asRecord(item);
+    const property = typeof rec?.property === "string" ? rec.property.toLowerCase() : "";
+    const name = typeof rec?.name === "string" ? rec.name.toLowerCase() : "";
+    const unit = typeof rec?.uM === "string" ? rec.uM : "";
+    const rawValue = safeNumber(rec?.rawValue);
+    if (property.includes("duration") || name.includes("duration")) {
+      const fromRawMin = rawValue;
+      const fromText = typeof rec?.value === "string" ? parseDurationString(rec.value) : undefined;
+      durationSec = fromText ?? (fromRawMin != null ? Math.round(fromRawMin * 60) : durationSec);
+    }
+    if (property.includes("move") || name.includes("move")) {
+      move = rawValue;
+    }
+    if (
+      property.includes("distance") ||
+      property.includes("hdistance") ||
+      name.includes("distance")
+    ) {
+      if (rawValue != null) {
+        summaryDistanceM = toMetersFromUnit(rawValue, unit);
+      }
+    }
+    if (property.includes("elevation") || name.includes("elevation")) {
+      if (rawValue != null) {
+        summaryVerticalM = toMetersFromUnit(rawValue, unit);
+      }
+    }
+    if ((property.includes("floors") || name.includes("floors")) && rawValue != null) {
+      if (isLengthUnit(unit)) summaryVerticalM = toMetersFromUnit(rawValue, unit);
+      else summaryFloors = rawValue;
+    }
+    if (property.includes("calories") || name.includes("calories")) {
+      calories = rawValue;
+    }
+    if ((STROKE_COUNT_KEYS.includes(property) || STROKE_COUNT_KEYS.includes(name)) && rawValue != null) {
+      summaryStrokes = rawValue;
+    }
+  }
+
+  const hrValues = series.map((p) => p.hr).filter((x): x is number => x != null);
+  const powerValues = series.map((p) => p.watts).filter((x): x is number => x != null);
+  const cadenceValues = series.map((p) => p.cadence).filter((x): x is number => x != null);
+  const verticalValues = series.map((p) => p.verticalM).filter((x): x is number => x != null);
+  const floorValues = series.map((p) => p.floors).filter((x): x is number => x != null);
+  const strokeValues = series.map((p) => p.strokes).filter((x): x is number => x != null);
+  const hasSplit = series.some((p) => p.splitSec != null);
+
+  const metrics: Record<string, number> = {};
+  if (durationSec != null) metrics["Duration"] = durationSec;
+  if (move != null) metrics["Move"] = move;
+  if (hrValues.length) {
+    const avgHr = average(hrValues);
+    if (avgHr != null) metrics["AvgHr"] = avgHr;
+    metrics["MaxHr"] = Math.max(...hrValues);
+  }
+  if (powerValues.length) {
+    const avgPower = average(powerValues);
+    if (avgPower != null) metrics["AvgPower"] = avgPower;
+  }
+  if (cadenceValues.length) {
+    const avgSpm = average(cadenceValues);
+    if (avgSpm != null) metrics["AvgSpm"] = avgSpm;
+  }
+  const distanceM = sampleDistanceM ?? summaryDistanceM ?? integratedDistanceM;
+  if (distanceM != null) metrics["HDistance"] = distanceM;
+  const strokes = strokeValues.length ? Math.max(...strokeValues) : summaryStrokes;
+  if (strokes != null) metrics["Strokes"] = strokes;
+  if (hasSplit && distanceM != null && distanceM > 0 && durationSec != null && durationSec > 0) {
+    metrics["AvgSplit"] = (durationSec * 500) / distanceM;
+  }
+  const verticalM = verticalValues.length ? Math.max(...verticalValues) : summaryVerticalM;
+  if (verticalM != null) metrics["Elevation"] = verticalM;
+  const floors = floorValues.length ? Math.max(...floorValues) : summaryFloors;
+  if (floors != null) metrics["Floors"] = floors;
+
+  const dateStr = typeof core.date === "string" ? core.date : undefined;
+  const parsedDate = dateStr ? new Date(dateStr) : undefined;
+  const parsedISO = parsedDate && !Number.isNaN(parsedDate.getTime()) ? parsedDate.toISOString() : undefined;
+  const startDate = calendarDate(dateStr);
+  const timedISO =
+    startDate && preferredStartTime ? applyStartTime(startDate, preferredStartTime, timeZone) : undefined;
+  const startedAtISO = timedISO ?? parsedISO;
+
+  const activityName =
+    typeof core.physicalActivityName === "string"
+      ? core.physicalActivityName
+      : typeof core.name === "string"
+        ? core.name
+        : typeof core.equipmentType === "string"
+          ? core.equipmentType
+          : "MyWellness workout";
+
+  const id =
+    typeof core.cardioLogId === "string"
+      ? core.cardioLogId
+      : typeof core.physicalActivityId === "string"
+        ? core.physicalActivityId
+        : `json-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+  const cadenceSpm = average(cadenceValues);
+  const hasDistance = pickDistanceM(metrics) != null;
+
+  return {
+    uid: `json-${id}`,
+    source: "indoor",
+    id,
+    startedAtISO,
+    startedAtDisplay: startedAtISO ? formatDateHuman(startedAtISO) : "—",
+    startDate: timedISO ? startDate : undefined,
+    startTime: timedISO ? preferredStartTime : undefined,
+    startTimeZone: timedISO ? timeZone : undefined,
+    activityName,
+    durationSec,
+    calories,
+    distanceM: pickDistanceM(metrics),
+    verticalM,
+    floors,
+    steps: pickStepCount(metrics),
+    cadenceSpm: cadenceSpm != null ? cadenceSpm : undefined,
+    strokes,
+    metrics,
+    metricKeys: Object.keys(metrics).sort(),
+    raw: core,
+    series,
+    extraChannels: extraChannels.length ? extraChannels : undefined,
+    hrAnchors,
+    exportOpts: {
+      includeHrSeries: hrValues.length > 0,
+      includeCadenceSeries: cadenceValues.length > 0,
+      includePowerSeries: powerValues.length > 0,
+      includeMetricsInNotes: false,
+      includeCalories: calories != null,
+      includeDistance: hasDistance,
+      includeVerticalAsAltitude: verticalM != null || floors != null,
+    },
+  };
+}
+
+export type ZipExtraction = {
+  activityFiles: string[];
+  workouts: Workout[];
+};
+
+export async function extractWorkoutsFromZip(zip: JSZip): Promise<ZipExtraction> {
+  // Privacy-by-design:
+  // Parse only indooractivities* (machine workouts) and outdooractivities*.
+  // Ignore all other files (including masterdata* and biometrics*).
+  const fileEntries = Object.keys(zip.files);
+
+  const activityFiles = fileEntries.filter((n) => {
+    const lower = n.toLowerCase();
+    const basename = lower.split("/").pop() ?? lower;
+    return (
+      (basename.startsWith("indooractivities-") || basename.startsWith("outdooractivities-")) &&
+      basename.endsWith(".json")
+    );
+  });
+
+  const workouts: Workout[] = [];
+
+  for (const name of activityFiles) {
+    const lower = name.toLowerCase();
+    const basename = lower.split("/").pop() ?? lower;
+    const text = await zip.files[name].async("string");
+    let obj: unknown;
+    try {
+      obj = JSON.parse(text);
+    } catch {
+      continue;
+    }
+
+    if (basename.startsWith("indooractivities-")) {
+      workouts.push(...extractWorkoutsFromIndoorJSON(obj));
+    } else if (basename.startsWith("outdooractivities-")) {
+      workouts.push(...extractWorkoutsFromOutdoorJSON(obj));
+    }
+  }
+
+  return { activityFiles, workouts };
+}
@@ -0,0 +1,321 @@
+import { FitWriter } from "@markw65/fit-file-writer";
+import { recordDeveloperValues, writeDeveloperFieldDescriptions } from "./devfields";
+import { hrZoneHighBpm, timeInHrZones } from "./hrzones";
+import { apportionByDuration, lapDurations, splitLaps, summarizeLap, summarizeWorkout } from "./laps";
+import {
+  altitudeChanges,
+  buildExportRecords,
+  defaultCadenceSpm,
+  hasSampledSeries,
+  maxRecordSpeed,
+  workoutStartMs,
+  workoutVerticalM,
+} from "./records";
+import type { ExportRecord } from "./records";
+import { DEFAULT_EXPORT_SETTINGS } from "./settings";
+import { resolveSport } from "./sport";
+import { normalizedPower, trainingLoad } from "./trainingload";
+import type { AthleteProfile, ExportSettings, LapSplitMode, Workout, WorkoutExportOpts } from "./types";
+
+const LAP_TRIGGER: Record<LapSplitMode, "manual" | "time" | "distance"> = {
+  none: "manual",
+  time: "time",
+  distance: "distance",
+  power: "manual",
+  hr: "manual",
+};
+
+// Athlete HR settings, written before the records so importers can read the
+// zones without a device profile.
+function writeHrProfile(fit: FitWriter, athlete: AthleteProfile, zoneHighBpm?: number[]) {
+  if (athlete.maxHr != null || athlete.restingHr != null) {
+    fit.writeMessage("user_profile", {
+      default_max_heart_rate: athlete.maxHr != null ? Math.round(athlete.maxHr) : undefined,
+      resting_heart_rate: athlete.restingHr != null ? Math.round(athlete.restingHr) : undefined,
+    }, null, true);
+  }
+  zoneHighBpm?.forEach((highBpm, i) => {
+    fit.writeMessage("hr_zone", {
+      message_index: { value: i },
+      high_bpm: highBpm,
+      name: `Zone ${i}`,
+    }, null, true);
+  });
+}
+
+export function workoutToFIT(
+  w: Workout,
+  opts: WorkoutExportOpts,
+  settings: ExportSettings = DEFAULT_EXPORT_SETTINGS,
+): ArrayBuffer {
+  const enhancedCompatibility = settings.enhancedFitCompatibility;
+  const startMs = workoutStartMs(w);
+
+  const totalSeconds = Math.max(0, Math.round(w.durationSec ?? 0));
+  const totalDistanceM = opts.includeDistance ? w.distanceM : undefined;
+  const totalVerticalM = opts.includeVerticalAsAltitude ? workoutVerticalM(w, settings) : undefined;
+  const calories = opts.includeCalories && w.calories != null ? Math.max(0, Math.round(w.calories)) : undefined;
+
+  const avgPower = w.metrics["AvgPower"];
+
+  const defaultCadence = defaultCadenceSpm(w, opts);
+  // Rowers: cadence is the stroke rate. The stroke total is written to
+  // total_cycles, which FIT decodes as total_strokes for rowing sessions.
+  const totalStrokes = w.strokes != null ? Math.max(0, Math.round(w.strokes)) : undefined;
+  const avgStrokeDistance =
+    totalStrokes && totalDistanceM != null ? totalDistanceM / totalStrokes : undefined;
+  // Stair machines: steps go to the same field (total_strides for walking/running).
+  const totalCycles = totalStrokes ?? (w.steps != null ? Math.max(0, Math.round(w.steps)) : undefined);
+
+  // Every record gets a full timestamp: parsers such as fit-file-parser skip
+  // compressed timestamp headers and would read those records without a time.
+  const fit = new FitWriter({ noCompressedTimestamps: true });
+  const startFit = fit.time(new Date(startMs));
+
+  fit.writeMessage("file_id", {
+    type: "activity",
+    manufacturer: "garmin",
+    product: 0,
+    serial_number: 0,
+    time_created: startFit,
+    product_name: "mywellness2tcx",
+  }, null, true);
+
+  if (enhancedCompatibility) {
+    fit.writeMessage("file_creator", {
+      software_version: 100,
+      hardware_version: 1,
+    }, null, true);
+
+    fit.writeMessage("device_info", {
+      timestamp: startFit,
+      device_index: 0,
+      manufacturer: "garmin",
+      product: 0,
+      serial_number: 0,
+      software_version: 1.0,
+    }, null, true);
+
+    fit.writeMessage("event", {
+      timestamp: startFit,
+      event: "timer",
+      event_type: "start",
+      event_group: 0,
+    });
+  }
+
+  const developerFields = settings.fitDeveloperFields ? writeDeveloperFieldDescriptions(fit, w) : undefined;
+
+  const records = buildExportRecords(w, opts, settings);
+  // Maxima, normalized power and HR zones need samples; summary-only records
+  // are flat.
+  const sampled = hasSampledSeries(w);
+  const zoneHighBpm =
+    sampled && records.some((r) => r.hr != null) ? hrZoneHighBpm(settings.athlete) : undefined;
+  writeHrProfile(fit, settings.athlete, zoneHighBpm);
+
+  const lastTSec = records.length ? records[records.length - 1].tSec : totalSeconds;
+  const totalTime = Math.max(1, lastTSec);
+  const avgSpeed = totalDistanceM != null && totalTime > 0 ? totalDistanceM / totalTime : undefined;
+  const maxSpeed = maxRecordSpeed(records);
+  // Climb comes from the altitude track when there is one; summary-only
+  // workouts only have the total, and no descent figure at all.
+  const climb = altitudeChanges(records);
+  const totalAscent =
+    climb != null
+      ? Math.round(climb.ascentM)
+      : totalVerticalM != null
+        ? Math.max(0, Math.round(totalVerticalM))
+        : undefined;
+  const totalDescent = climb != null ? Math.round(climb.descentM) : undefined;
+  const totalWork =
+    avgPower != null
+      ? Math.max(0, Math.round(avgPower * totalTime))
+      : undefined;
+  // HR comes from the export records, like TCX, so the selected resampling
+  // mode applies to the summaries too.
+  const workoutSummary = summarizeWorkout(w, opts, records);
+  const avgHr = workoutSummary.avgHr != null ? Math.round(workoutSummary.avgHr) : undefined;
+  const maxHr = workoutSummary.maxHr != null ? Math.round(workoutSummary.maxHr) : undefined;
+  const load = trainingLoad(sampled ? records : [], totalTime, workoutSummary.avgHr, settings.athlete);
+  const maxPower = workoutSummary.maxPower != null ? Math.round(workoutSummary.maxPower) : undefined;
+  const maxCadence = workoutSummary.maxCadence != null ? Math.round(workoutSummary.maxCadence) : undefined;
+  const np = load.normalizedPower != null ? Math.round(load.normalizedPower) : undefined;
+
+  for (const r of records) {
+    fit.writeMessage("record", {
+      timestamp: fit.time(new Date(startMs + r.tSec * 1000)),
+      distance: r.dist,
+      speed: r.speed,
+      enhanced_speed: r.speed,
+      grade: r.grade,
+      heart_rate: r.hr,
+      cadence: r.cadence,
+      power: r.watts,
+      altitude: r.alt,
+    }, developerFields ? recordDeveloperValues(developerFields, r.extras) : null);
+  }
+
+  const sport = resolveSport(w, settings.sportRules);
+  const endFit = fit.time(new Date(startMs + Math.max(1, lastTSec) * 1000));
+  // time_in_hr_zone has a scale of 1000, but the writer only scales scalar
+  // fields, so array values go in as raw milliseconds.
+  const zoneTimes = (lapRecords: ExportRecord[]) =>
+    zoneHighBpm ? timeInHrZones(lapRecords, zoneHighBpm).map((sec) => Math.round(sec * 1000)) : undefined;
+  const sessionZoneSeconds = zoneTimes(records);
+  // One time_in_zone message per lap and one for the session, after the message it refers to.
+  const writeTimeInZone = (
+    reference: "lap" | "session",
+    index: number,
+    timestamp: number,
+    seconds: number[] | undefined,
+  ) => {
+    if (!zoneHighBpm || !seconds) return;
+    fit.writeMessage("time_in_zone", {
+      timestamp,
+      reference_mesg: reference,
+      reference_index: { value: index },
+      time_in_hr_zone: seconds,
+      hr_zone_high_boundary: zoneHighBpm,
+      hr_calc_type: settings.athlete.hrZoneMethod === "karvonen" ? "percent_hrr" : "percent_max_hr",
+      max_heart_rate: settings.athlete.maxHr != null ? Math.round(settings.athlete.maxHr) : undefined,
+      resting_heart_rate: settings.athlete.restingHr != null ? Math.round(settings.athlete.restingHr) : undefined,
+      threshold_heart_rate: settings.athlete.thresholdHr != null ? Math.round(settings.athlete.thresholdHr) : undefined,
+    }, null, true);
+  };
+
+  const segments = splitLaps(records, settings.lapSplit);
+  if (segments.length <= 1) {
+    fit.writeMessage("lap", {
+      timestamp: endFit,
+      start_time: startFit,
+      total_elapsed_time: totalTime,
+      total_timer_time: totalTime,
+      total_distance: totalDistanceM ?? 0,
+      total_calories: calories,
+      total_ascent: totalAscent,
+      total_descent: totalDescent,
+      avg_speed: avgSpeed,
+      max_speed: maxSpeed,
+      avg_heart_rate: avgHr,
+      max_heart_rate: maxHr,
+      avg_power: avgPower != null ? Math.round(avgPower) : undefined,
+      max_power: maxPower,
+      normalized_power: np,
+      total_work: totalWork,
+      avg_cadence: defaultCadence != null ? Math.round(defaultCadence) : undefined,
+      max_cadence: maxCadence,
+      total_cycles: totalCycles,
+      avg_stroke_distance: avgStrokeDistance,
+      time_in_hr_zone: sessionZoneSeconds,
+      sport: sport.fit,
+      sub_sport: sport.fitSubSport,
+    }, null, true);
+    writeTimeInZone("lap", 0, endFit, sessionZoneSeconds);
+  } else {
+    // Like the single lap, the laps add up to the session's timer time.
+    const times = lapDurations(segments, totalTime);
+    const summaries = segments.map((seg, i) => ({ ...summarizeLap(seg, segments[i + 1]), durationSec: times[i] }));
+    const lapCalories = calories != null ? apportionByDuration(calories, summaries) : undefined;
+    segments.forEach((seg, i) => {
+      const lap = summaries[i];
+      const lapTime = lap.durationSec;
+      const lapDistance = totalDistanceM != null ? lap.distanceM : 0;
+      const lapAvgSpeed = totalDistanceM != null && lapTime > 0 ? lapDistance / lapTime : undefined;
+      const lapEndFit = i === segments.length - 1 ? endFit : fit.time(new Date(startMs + seg.endSec * 1000));
+      const lapNp = sampled ? normalizedPower(seg.records) : undefined;
+      // Like lap distance, zone time runs up to the next lap's first record.
+      const next = segments[i + 1];
+      const lapZoneSeconds = zoneTimes(next ? [...seg.records, next.records[0]] : seg.records);
+      fit.writeMessage("lap", {
+        timestamp: lapEndFit,
+        start_time: i === 0 ? startFit : fit.time(new Date(startMs + seg.startSec * 1000)),
+        total_elapsed_time: lapTime,
+        total_timer_time: lapTime,
+        total_distance: lapDistance,
+        total_calories: lapCalories?.[i],
+        total_ascent: lap.ascentM != null ? Math.round(lap.ascentM) : undefined,
+        total_descent: lap.descentM != null ? Math.round(lap.descentM) : undefined,
+        avg_speed: lapAvgSpeed,
+        max_speed: lap.maxSpeed,
+        avg_heart_rate: lap.avgHr != null ? Math.round(lap.avgHr) : undefined,
+        max_heart_rate: lap.maxHr != null ? Math.round(lap.maxHr) : undefined,
+        avg_power: lap.avgPower != null ? Math.round(lap.avgPower) : undefined,
+        max_power: sampled && lap.maxPower != null ? Math.round(lap.maxPower) : undefined,
+        normalized_power: lapNp != null ? Math.round(lapNp) : undefined,
+        total_work: lap.avgPower != null ? Math.max(0, Math.round(lap.avgPower * lapTime)) : undefined,
+        avg_cadence: lap.avgCadence != null ? Math.round(lap.avgCadence) : undefined,
+        max_cadence: sampled && lap.maxCadence != null ? Math.round(lap.maxCadence) : undefined,
+        total_cycles: lap.strokes != null ? Math.round(lap.strokes) : undefined,
+        avg_stroke_distance:
+          lap.strokes && totalDistanceM != null ? lapDistance / lap.strokes : undefined,
+        time_in_hr_zone: lapZoneSeconds,
+        lap_trigger: i === segments.length - 1 ? "session_end" : LAP_TRIGGER[settings.lapSplit.mode],
+        sport: sport.fit,
+        sub_sport: sport.fitSubSport,
+      }, null, true);
+      writeTimeInZone("lap", i, lapEndFit, lapZoneSeconds);
+    });
+  }
+
+  fit.writeMessage("session", {
+    timestamp: endFit,
+    start_time: startFit,
+    total_elapsed_time: totalTime,
+    total_timer_time: totalTime,
+    total_distance: totalDistanceM ?? 0,
+    total_calories: calories,
+    total_ascent: totalAscent,
+    total_descent: totalDescent,
+    avg_speed: avgSpeed,
+    max_speed: maxSpeed,
+    total_work: totalWork,
+    sport: sport.fit,
+    sub_sport: sport.fitSubSport,
+    num_laps: Math.max(1, segments.length),
+    avg_heart_rate: avgHr,
+    max_heart_rate: maxHr,
+    avg_power: avgPower != null ? Math.round(avgPower) : undefined,
+    max_power: maxPower,
+    normalized_power: np,
+    threshold_power: settings.athlete.ftpW != null ? Math.round(settings.athlete.ftpW) : undefined,
+    intensity_factor: load.intensityFactor,
+    training_stress_score: load.trainingStressScore,
+    avg_cadence: defaultCadence != null ? Math.round(defaultCadence) : undefined,
+    max_cadence: maxCadence,
+    total_cycles: totalCycles,
+    avg_stroke_distance: avgStrokeDistance,
+    time_in_hr_zone: sessionZoneSeconds,
+  }, developerFields?.session.length ? developerFields.session : null, true);
+  writeTimeInZone("session", 0, endFit, sessionZoneSeconds);
+
+  fit.writeMessage("activity", {
+    timestamp: endFit,
+    total_timer_time: totalTime,
+    num_sessions: 1,
+    type: "manual",
+  }, null, true);
+
+  if (enhancedCompatibility) {
+    fit.writeMessage("event", {
+      timestamp: endFit,
+      event: "timer",
+      event_type: "stop_all",
+      event_group: 0,
+    }, null, true);
+
+    fit.writeMessage("device_info", {
+      timestamp: endFit,
+      device_index: 0,
+      manufacturer: "garmin",
+      product: 0,
+      serial_number: 0,
+      software_version: 1.0,
+    }, null, true);
+  }
+
+  const data = fit.finish();
+  const out = new Uint8Array(data.byteLength);
+  out.set(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+  return out.buffer;
+}
@@ -0,0 +1,40 @@
+import type { ExportFormat, Workout } from "./types";
+
+export function formatDuration(sec?: number): string {
+  if (!sec || sec <= 0) return "—";
+  const h = Math.floor(sec / 3600);
+  const m = Math.floor((sec % 3600) / 60);
+  const s = Math.floor(sec % 60);
+  if (h > 0)
+    return `${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+  return `${m}:${String(s).padStart(2, "0")}`;
+}
+
+export function formatDateHuman(iso?: string): string {
+  if (!iso) return "—";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "—";
+  return d.toLocaleString();
+}
+
+export function safeDateToken(iso?: string): string {
+  const parsed = iso ? new Date(iso) : new Date();
+  const dt = Number.isNaN(parsed.getTime()) ? new Date() : parsed;
+  return dt.toISOString().replace(/[:]/g, "").replace(/\..+/, "Z");
+}
+
+export function exportFileName(w: Workout, format: ExportFormat): string {
+  return `mywellness-${w.source}-${safeDateToken(w.startedAtISO)}-${w.id}.${format}`;
+}
+
+// Also drops control characters, which XML 1.0 does not allow even escaped.
+export function escapeXml(s: string): string {
+  return s
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
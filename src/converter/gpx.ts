@@ -0,0 +1,71 @@
+import { buildExportRecords, workoutStartMs } from "./records";
+import type { ExportRecord } from "./records";
+import { DEFAULT_EXPORT_SETTINGS } from "./settings";
+import { resolveSport } from "./sport";
+import type { ExportSettings, Workout, WorkoutExportOpts } from "./types";
+import { el, renderXmlDocument } from "./xml";
+import type { XmlNode } from "./xml";
+
+// Elements are written in the order of the GPX 1.1 sequences (metadata, trk,
+// wpt) and of Garmin's TrackPointExtension v2.
+
+const GPX_NAMESPACES = {
+  version: "1.1",
+  creator: "mywellness2tcx",
+  xmlns: "http://www.topografix.com/GPX/1/1",
+  "xmlns:xsi": "http://www.w3.org/2001/XMLSchema-instance",
+  "xmlns:gpxtpx": "http://www.garmin.com/xmlschemas/TrackPointExtension/v2",
+  "xmlns:gpxpx": "http://www.garmin.com/xmlschemas/PowerExtension/v1",
+  "xsi:schemaLocation": [
+    "http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd",
+    "http://www.garmin.com/xmlschemas/TrackPointExtension/v2 http://www.garmin.com/xmlschemas/TrackPointExtensionv2.xsd",
+    "http://www.garmin.com/xmlschemas/PowerExtension/v1 http://www.garmin.com/xmlschemas/PowerExtensionv1.xsd",
+  ].join(" "),
+};
+
+// GPX requires lat/lon on every trkpt, but machine workouts have no position,
+// so every point is placed at 0,0. Some tools plot that spot or reject the
+// file; TCX and FIT carry the same data without a position.
+function trackpointNode(r: ExportRecord, startMs: number): XmlNode {
+  const time = new Date(startMs + r.tSec * 1000).toISOString();
+  const hr = r.hr != null ? Math.round(r.hr) : undefined;
+  const cadence = r.cadence != null ? Math.round(r.cadence) : undefined;
+  const watts = r.watts != null ? Math.round(r.watts) : undefined;
+  const tpx = [
+    hr != null && el("gpxtpx:hr", hr),
+    cadence != null && el("gpxtpx:cad", cadence),
+    r.speed != null && el("gpxtpx:speed", r.speed.toFixed(3)),
+  ].filter(Boolean);
+  // TrackPointExtension has no power element; Garmin's PowerExtension carries it.
+  const extensions = [
+    tpx.length > 0 && el("gpxtpx:TrackPointExtension", tpx),
+    watts != null && el("gpxpx:PowerInWatts", watts),
+  ].filter(Boolean);
+  return el("trkpt", [
+    r.alt != null && el("ele", r.alt.toFixed(1)),
+    el("time", time),
+    extensions.length > 0 && el("extensions", extensions),
+  ], { lat: 0, lon: 0 });
+}
+
+export function workoutToGPX(
+  w: Workout,
+  opts: WorkoutExportOpts,
+  settings: ExportSettings = DEFAULT_EXPORT_SETTINGS,
+): string {
+  const startMs = workoutStartMs(w);
+  const records = buildExportRecords(w, opts, settings);
+  const notes = w.notes?.trim();
+
+  return renderXmlDocument(
+    el("gpx", [
+      el("metadata", [el("name", w.activityName), el("time", new Date(startMs).toISOString())]),
+      el("trk", [
+        el("name", w.activityName),
+        notes && el("desc", notes),
+        el("type", resolveSport(w, settings.sportRules).fit),
+        el("trkseg", records.map((r) => trackpointNode(r, startMs))),
+      ]),
+    ], GPX_NAMESPACES),
+  );
+}
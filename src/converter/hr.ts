@@ -0,0 +1,61 @@
+import type { HrAnchor, HrResampling } from "./types";
+
+export const DEFAULT_HR_MAX_GAP_SEC = 30;
+
+// Finds the last anchor at or before tSec (-1 when tSec is before the first).
+function anchorIndexAtOrBefore(anchors: HrAnchor[], tSec: number): number {
+  let lo = 0;
+  let hi = anchors.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (anchors[mid].tSec <= tSec) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+function interpolate(a: HrAnchor, b: HrAnchor, tSec: number): number {
+  const span = b.tSec - a.tSec;
+  if (span <= 0) return b.hr;
+  return a.hr + (b.hr - a.hr) * ((tSec - a.tSec) / span);
+}
+
+// MyWellness records HR at irregular anchor times (`analitics.hr`), not on
+// every sample. The modes decide what to write between and around anchors:
+// - linear: straight line between anchors, flat before the first/after the last
+// - hold: keep the last anchor value until the next one
+// - gap-aware: linear, but leave HR empty where anchors are more than
+//   `maxGapSec` apart (or that far beyond the first/last anchor)
+export function hrAtTime(
+  anchors: HrAnchor[],
+  tSec: number,
+  resampling: HrResampling,
+): number | undefined {
+  if (anchors.length === 0) return undefined;
+  const first = anchors[0];
+  const last = anchors[anchors.length - 1];
+  const gapAware = resampling.mode === "gap-aware";
+
+  const i = anchorIndexAtOrBefore(anchors, tSec);
+  if (i < 0) {
+    if (gapAware && first.tSec - tSec > resampling.maxGapSec) return undefined;
+    return first.hr;
+  }
+  const a = anchors[i];
+  if (a.tSec === tSec) return a.hr;
+  if (i === anchors.length - 1) {
+    if (gapAware && tSec - last.tSec > resampling.maxGapSec) return undefined;
+    return last.hr;
+  }
+
+  const b = anchors[i + 1];
+  if (resampling.mode === "hold") return a.hr;
+  if (gapAware && b.tSec - a.tSec > resampling.maxGapSec) return undefined;
+  return interpolate(a, b, tSec);
+}
+
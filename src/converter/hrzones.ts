@@ -0,0 +1,76 @@
+import { buildExportRecords, hasSampledSeries } from "./records";
+import type { ExportRecord } from "./records";
+import type { AthleteProfile, ExportSettings, HrZoneMethod, Workout } from "./types";
+
+// Five HR zones; each bound is the lower edge of zones 1–5 in percent.
+export const DEFAULT_HR_ZONE_BOUNDS_PCT = [50, 60, 70, 80, 90];
+
+export const HR_ZONE_METHOD_LABELS: Record<HrZoneMethod, string> = {
+  "percent-max": "% of max HR",
+  karvonen: "% of HR reserve (Karvonen)",
+};
+
+export type HrZoneTimes = {
+  // High bpm of zones 0–5, zone 0 being everything below zone 1 (the layout
+  // of FIT's hr_zone_high_boundary).
+  highBpm: number[];
+  seconds: number[];
+};
+
+// "50, 60, 70, 80, 90" → bounds; undefined unless strictly increasing
+// percentages between 0 and 100.
+export function parseHrZoneBounds(text: string): number[] | undefined {
+  const bounds = text.split(/[\s,;]+/).filter(Boolean).map(Number);
+  if (!bounds.length) return undefined;
+  const valid = bounds.every((b, i) => Number.isFinite(b) && b > 0 && b < 100 && (i === 0 || b > bounds[i - 1]));
+  return valid ? bounds : undefined;
+}
+
+// Undefined until the profile has a max HR, and a lower resting HR for Karvonen.
+export function hrZoneHighBpm(athlete: AthleteProfile): number[] | undefined {
+  const { maxHr, restingHr } = athlete;
+  const method = athlete.hrZoneMethod ?? "percent-max";
+  if (!maxHr) return undefined;
+  if (method === "karvonen" && (restingHr == null || restingHr >= maxHr)) return undefined;
+  const bpmAt = (pct: number) =>
+    method === "karvonen" && restingHr != null
+      ? restingHr + (pct / 100) * (maxHr - restingHr)
+      : (pct / 100) * maxHr;
+  // A zone ends one beat below the next zone's lower bound; the top zone ends at max HR.
+  const bounds = athlete.hrZoneBoundsPct ?? DEFAULT_HR_ZONE_BOUNDS_PCT;
+  return [...bounds.map((pct) => Math.round(bpmAt(pct)) - 1), Math.round(maxHr)];
+}
+
+function hrZoneIndex(hr: number, highBpm: number[]): number {
+  const i = highBpm.findIndex((high) => hr <= high);
+  return i === -1 ? highBpm.length - 1 : i;
+}
+
+// Each HR is held until the next record; records without HR (gap-aware gaps)
+// count for no zone, and the last record ends the timer.
+export function timeInHrZones(records: ExportRecord[], highBpm: number[]): number[] {
+  const seconds = highBpm.map(() => 0);
+  records.forEach((r, i) => {
+    const next = records[i + 1];
+    if (r.hr == null || !next) return;
+    seconds[hrZoneIndex(r.hr, highBpm)] += Math.max(0, next.tSec - r.tSec);
+  });
+  return seconds;
+}
+
+// Time in zone over the resampled HR series, as it will be exported.
+// Summary-only workouts have no HR profile to split, so they get none.
+export function workoutTimeInHrZones(w: Workout, settings: ExportSettings): HrZoneTimes | undefined {
+  const highBpm = hrZoneHighBpm(settings.athlete);
+  if (!highBpm || !hasSampledSeries(w) || !w.exportOpts.includeHrSeries) return undefined;
+  const records = buildExportRecords(w, w.exportOpts, settings);
+  if (!records.some((r) => r.hr != null)) return undefined;
+  return { highBpm, seconds: timeInHrZones(records, highBpm) };
+}
+
+// "111–129 bpm" for zone i; zone 0 is open below and the top zone above.
+export function hrZoneRange(highBpm: number[], i: number): string {
+  if (i === 0) return `≤ ${highBpm[0]} bpm`;
+  if (i === highBpm.length - 1) return `≥ ${highBpm[i - 1] + 1} bpm`;
+  return `${highBpm[i - 1] + 1}–${highBpm[i]} bpm`;
+}
@@ -0,0 +1,202 @@
+import { altitudeChanges, defaultCadenceSpm, hasSampledSeries, maxRecordSpeed } from "./records";
+import type { ExportRecord } from "./records";
+import type { LapSplitMode, LapSplitRule, Workout, WorkoutExportOpts } from "./types";
+
+export type LapSegment = {
+  startSec: number;
+  endSec: number;
+  records: ExportRecord[];
+};
+
+export type LapSummary = {
+  durationSec: number;
+  distanceM: number;
+  ascentM?: number;
+  descentM?: number;
+  maxSpeed?: number;
+  avgHr?: number;
+  maxHr?: number;
+  avgPower?: number;
+  maxPower?: number;
+  avgCadence?: number;
+  maxCadence?: number;
+  strokes?: number;
+};
+
+export const DEFAULT_LAP_SPLIT_VALUES: Record<LapSplitMode, number> = {
+  none: 0,
+  time: 5,
+  distance: 1000,
+  power: 30,
+  hr: 15,
+};
+
+// Step detection compares a short trailing average against the current lap
+// average, and ignores steps until the lap is long enough to be an interval.
+const STEP_SMOOTHING_SEC = 10;
+const STEP_MIN_LAP_SEC = 30;
+
+function stepValue(r: ExportRecord, mode: "power" | "hr"): number | undefined {
+  return mode === "power" ? r.watts : r.hr;
+}
+
+function lapStartIndexes(records: ExportRecord[], rule: LapSplitRule): number[] {
+  const starts = [0];
+  if (records.length < 2 || !(rule.value > 0)) return starts;
+
+  if (rule.mode === "time" || rule.mode === "distance") {
+    const size = rule.mode === "time" ? rule.value * 60 : rule.value;
+    let next = size;
+    for (let i = 1; i < records.length - 1; i++) {
+      const x = rule.mode === "time" ? records[i].tSec : records[i].dist;
+      if (x >= next) {
+        starts.push(i);
+        while (next <= x) next += size;
+      }
+    }
+    return starts;
+  }
+
+  if (rule.mode === "power" || rule.mode === "hr") {
+    let lapStart = 0;
+    let lapSum = 0;
+    let lapCount = 0;
+    for (let i = 0; i < records.length - 1; i++) {
+      const v = stepValue(records[i], rule.mode);
+      if (v == null) continue;
+
+      const windowValues: number[] = [];
+      for (let j = i; j >= lapStart && records[i].tSec - records[j].tSec < STEP_SMOOTHING_SEC; j--) {
+        const wv = stepValue(records[j], rule.mode);
+        if (wv != null) windowValues.push(wv);
+      }
+      const smoothed = windowValues.reduce((acc, x) => acc + x, 0) / windowValues.length;
+      const lapLongEnough = records[i].tSec - records[lapStart].tSec >= STEP_MIN_LAP_SEC;
+
+      const lapMean = lapSum / lapCount;
+      if (lapCount > 0 && lapLongEnough && Math.abs(smoothed - lapMean) >= rule.value) {
+        // Start the new lap at the first sample of the step, not where it was noticed.
+        let windowStart = i;
+        for (let j = i; j > lapStart && records[i].tSec - records[j].tSec < STEP_SMOOTHING_SEC; j--) {
+          const wv = stepValue(records[j], rule.mode);
+          if (wv != null && Math.abs(wv - lapMean) >= rule.value) windowStart = j;
+        }
+        starts.push(windowStart);
+        lapStart = windowStart;
+        lapSum = 0;
+        lapCount = 0;
+        for (let j = windowStart; j <= i; j++) {
+          const wv = stepValue(records[j], rule.mode);
+          if (wv != null) {
+            lapSum += wv;
+            lapCount += 1;
+          }
+        }
+        continue;
+      }
+      lapSum += v;
+      lapCount += 1;
+    }
+  }
+
+  return starts;
+}
+
+export function splitLaps(records: ExportRecord[], rule: LapSplitRule): LapSegment[] {
+  if (records.length === 0) return [];
+  const starts = lapStartIndexes(records, rule);
+  const lastTSec = records[records.length - 1].tSec;
+  return starts.map((startIdx, k) => {
+    const endIdx = k + 1 < starts.length ? starts[k + 1] : records.length;
+    return {
+      startSec: records[startIdx].tSec,
+      endSec: endIdx < records.length ? records[endIdx].tSec : lastTSec,
+      records: records.slice(startIdx, endIdx),
+    };
+  });
+}
+
+// Lap times that add up to the workout's total time: the first lap also covers
+// any time before the first record, and the last lap runs to `totalSec`.
+export function lapDurations(segments: LapSegment[], totalSec: number): number[] {
+  const starts = segments.map((seg, i) => (i === 0 ? 0 : seg.startSec));
+  return starts.map((start, i) => Math.max(0, (i + 1 < starts.length ? starts[i + 1] : totalSec) - start));
+}
+
+function averageOf(values: Array<number | undefined>): number | undefined {
+  const xs = values.filter((x): x is number => x != null);
+  if (!xs.length) return undefined;
+  return xs.reduce((acc, x) => acc + x, 0) / xs.length;
+}
+
+export function summarizeLap(lap: LapSegment, next?: LapSegment): LapSummary {
+  const first = lap.records[0];
+  // Distance and climb run up to the next lap's first record so that lap totals add up.
+  const boundary = next?.records[0] ?? lap.records[lap.records.length - 1];
+  const span = next ? [...lap.records, boundary] : lap.records;
+
+  const climb = altitudeChanges(span);
+
+  const hrValues = lap.records.map((r) => r.hr).filter((x): x is number => x != null);
+  const powerValues = lap.records.map((r) => r.watts).filter((x): x is number => x != null);
+  const cadenceValues = lap.records.map((r) => r.cadence).filter((x): x is number => x != null);
+  const strokeValues = span.map((r) => r.strokes).filter((x): x is number => x != null);
+
+  return {
+    durationSec: Math.max(0, lap.endSec - lap.startSec),
+    distanceM: Math.max(0, boundary.dist - first.dist),
+    ascentM: climb?.ascentM,
+    descentM: climb?.descentM,
+    maxSpeed: maxRecordSpeed(lap.records),
+    avgHr: averageOf(hrValues),
+    maxHr: hrValues.length ? Math.max(...hrValues) : undefined,
+    avgPower: averageOf(powerValues),
+    maxPower: powerValues.length ? Math.max(...powerValues) : undefined,
+    avgCadence: averageOf(cadenceValues),
+    maxCadence: cadenceValues.length ? Math.max(...cadenceValues) : undefined,
+    strokes: strokeValues.length ? Math.max(...strokeValues) - Math.min(...strokeValues) : undefined,
+  };
+}
+
+// Whole-workout summary for a single lap. Sampled workouts are summarized from
+// their export records; summary-only records are synthetic and flat, so those
+// take the MyWellness metrics instead and leave the maxima they lack empty.
+export function summarizeWorkout(w: Workout, opts: WorkoutExportOpts, records: ExportRecord[]): LapSummary {
+  const fromSeries =
+    hasSampledSeries(w) && records.length > 0
+      ? summarizeLap({ startSec: records[0].tSec, endSec: records[records.length - 1].tSec, records })
+      : undefined;
+  const last = records[records.length - 1];
+  return {
+    durationSec: fromSeries?.durationSec ?? last?.tSec ?? 0,
+    distanceM: fromSeries?.distanceM ?? last?.dist ?? 0,
+    ascentM: fromSeries?.ascentM,
+    descentM: fromSeries?.descentM,
+    maxSpeed: fromSeries?.maxSpeed,
+    avgHr: fromSeries?.avgHr ?? w.metrics["AvgHr"],
+    maxHr: fromSeries?.maxHr ?? w.metrics["MaxHr"],
+    avgPower: fromSeries?.avgPower ?? w.metrics["AvgPower"],
+    maxPower: fromSeries?.maxPower,
+    avgCadence: fromSeries?.avgCadence ?? defaultCadenceSpm(w, opts),
+    maxCadence: fromSeries?.maxCadence,
+    strokes: fromSeries?.strokes,
+  };
+}
+
+// Splits a whole-workout total across laps by duration, keeping integer parts
+// that still sum to the original total.
+export function apportionByDuration(total: number, laps: LapSummary[]): number[] {
+  const totalSec = laps.reduce((acc, l) => acc + l.durationSec, 0);
+  const out: number[] = [];
+  let assigned = 0;
+  laps.forEach((l, i) => {
+    if (i === laps.length - 1) {
+      out.push(Math.max(0, total - assigned));
+      return;
+    }
+    const part = totalSec > 0 ? Math.round((total * l.durationSec) / totalSec) : 0;
+    out.push(part);
+    assigned += part;
+  });
+  return out;
+}
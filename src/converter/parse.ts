@@ -0,0 +1,140 @@
+export function safeNumber(v: unknown): number | undefined {
+  const n = typeof v === "number" ? v : typeof v === "string" ? Number(v) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+export function asRecord(v: unknown): Record<string, unknown> | undefined {
+  if (v && typeof v === "object" && !Array.isArray(v)) {
+    return v as Record<string, unknown>;
+  }
+  return undefined;
+}
+
+export function asNumberArray(v: unknown): number[] {
+  if (!Array.isArray(v)) return [];
+  return v.map((x) => safeNumber(x)).filter((x): x is number => x != null);
+}
+
+export function average(values: number[]): number | undefined {
+  if (!values.length) return undefined;
+  return values.reduce((acc, x) => acc + x, 0) / values.length;
+}
+
+export function parseDurationString(s: string): number | undefined {
+  const trimmed = s.trim();
+  const parts = trimmed.split(":");
+  if (parts.length === 2) {
+    const m = Number(parts[0]);
+    const sec = Number(parts[1]);
+    if (Number.isFinite(m) && Number.isFinite(sec)) return m * 60 + sec;
+  }
+  if (parts.length === 3) {
+    const h = Number(parts[0]);
+    const m = Number(parts[1]);
+    const sec = Number(parts[2]);
+    if (Number.isFinite(h) && Number.isFinite(m) && Number.isFinite(sec)) {
+      return h * 3600 + m * 60 + sec;
+    }
+  }
+  return undefined;
+}
+
+export function isLengthUnit(unitRaw: unknown): boolean {
+  const unit = typeof unitRaw === "string" ? unitRaw.trim().toLowerCase() : "";
+  return ["m", "meter", "meters", "metre", "metres", "km", "ft", "foot", "feet"].includes(unit);
+}
+
+export function toMetersFromUnit(value: number, unitRaw: unknown): number {
+  const unit = typeof unitRaw === "string" ? unitRaw.trim().toLowerCase() : "";
+  if (!unit) return value;
+  if (
+    unit === "m" ||
+    unit === "meter" ||
+    unit === "meters" ||
+    unit === "metre" ||
+    unit === "metres"
+  ) {
+    return value;
+  }
+  if (unit === "km" || unit === "kilometer" || unit === "kilometers") {
+    return value * 1000;
+  }
+  if (unit === "mi" || unit === "mile" || unit === "miles" || unit === "mls") {
+    return value * 1609.344;
+  }
+  if (unit === "ft" || unit === "foot" || unit === "feet") {
+    return value * 0.3048;
+  }
+  return value;
+}
+
+// Technogym treadmills report speed in km/h (or mph), so a missing unit is
+// treated as km/h rather than m/s.
+export function toMetersPerSecondFromUnit(value: number, unitRaw: unknown): number {
+  const unit = typeof unitRaw === "string" ? unitRaw.trim().toLowerCase() : "";
+  if (unit === "m/s" || unit === "mps" || unit === "ms") return value;
+  if (unit === "mph" || unit === "mi/h") return value * 0.44704;
+  return value / 3.6;
+}
+
+// Rower splits are time per 500 m, usually in seconds; some machines report
+// minutes or a per-kilometre pace.
+export function toSecondsPer500mFromUnit(value: number, unitRaw: unknown): number {
+  const unit = typeof unitRaw === "string" ? unitRaw.trim().toLowerCase() : "";
+  const seconds = unit.startsWith("min") ? value * 60 : value;
+  return unit.includes("km") ? seconds / 2 : seconds;
+}
+
+export function prToMap(raw: unknown): Record<string, number> {
+  const out: Record<string, number> = {};
+
+  const rawRec = asRecord(raw);
+  const performedData = asRecord(rawRec?.performedData);
+  const physicalActivityData = asRecord(rawRec?.physicalActivityData);
+
+  const pr =
+    performedData?.pr ??
+    physicalActivityData?.pr ??
+    performedData?.PR ??
+    physicalActivityData?.PR;
+
+  if (!Array.isArray(pr)) return out;
+
+  for (const item of pr) {
+    const itemRec = asRecord(item);
+    const name = itemRec?.n;
+    const val = safeNumber(itemRec?.v);
+    if (typeof name === "string" && val != null) out[name] = val;
+  }
+  return out;
+}
+
+export function pickDistanceM(metrics: Record<string, number>): number | undefined {
+  return (
+    metrics["HDistance"] ??
+    metrics["Distance"] ??
+    metrics["DistanceMeters"] ??
+    (metrics["Km"] != null ? metrics["Km"] * 1000 : undefined)
+  );
+}
+
+export function pickVerticalM(metrics: Record<string, number>): number | undefined {
+  return metrics["Elevation"];
+}
+
+export function pickFloors(metrics: Record<string, number>): number | undefined {
+  return metrics["Floors"];
+}
+
+// "Move" only counts steps on stair machines; elsewhere it is Technogym's own unit.
+export function pickStepCount(metrics: Record<string, number>): number | undefined {
+  return metrics["Steps"] ?? metrics["StepCount"] ?? (metrics["Floors"] != null ? metrics["Move"] : undefined);
+}
+
+export function pickCadenceSpm(metrics: Record<string, number>): number | undefined {
+  return metrics["AvgSpm"] ?? metrics["Cadence"] ?? metrics["AvgStrokeRate"] ?? metrics["StrokeRate"];
+}
+
+export function pickStrokeCount(metrics: Record<string, number>): number | undefined {
+  return metrics["Strokes"] ?? metrics["StrokeCount"] ?? metrics["TotalStrokes"];
+}
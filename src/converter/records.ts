@@ -0,0 +1,254 @@
+import { asRecord, pickCadenceSpm } from "./parse";
+import { hrAtTime } from "./hr";
+import { DEFAULT_EXPORT_SETTINGS } from "./settings";
+import type { ExportSettings, HrAnchor, SeriesPoint, Workout, WorkoutExportOpts } from "./types";
+
+export type ExportRecord = {
+  tSec: number;
+  hr?: number;
+  cadence?: number;
+  watts?: number;
+  alt?: number;
+  dist: number;
+  speed?: number;
+  grade?: number;
+  // Cumulative rower stroke count, when the machine samples it.
+  strokes?: number;
+  extras?: Record<string, number>;
+};
+
+// Distance samples are coarse (often 10 m steps), so speed is taken across a
+// window of a few seconds rather than between neighbouring samples.
+const SPEED_WINDOW_SEC = 10;
+
+// Treadmills that only report speed still get a distance track, integrated
+// with the trapezoid rule. Returns the total, or undefined without speed data.
+export function fillDistanceFromSpeed(series: SeriesPoint[]): number | undefined {
+  const withSpeed = series.filter((p): p is SeriesPoint & { speedMps: number } => p.speedMps != null);
+  if (withSpeed.length < 2) return undefined;
+  let dist = 0;
+  withSpeed[0].distanceM = 0;
+  for (let i = 1; i < withSpeed.length; i++) {
+    const a = withSpeed[i - 1];
+    const b = withSpeed[i];
+    dist += ((a.speedMps + b.speedMps) / 2) * Math.max(0, b.tSec - a.tSec);
+    b.distanceM = dist;
+  }
+  return dist;
+}
+
+export function fillSpeedFromDistance(series: SeriesPoint[]): void {
+  const withDist = series.filter((p): p is SeriesPoint & { distanceM: number } => p.distanceM != null);
+  if (withDist.length < 2) return;
+  const half = SPEED_WINDOW_SEC / 2;
+  for (let i = 0; i < withDist.length; i++) {
+    const p = withDist[i];
+    if (p.speedMps != null) continue;
+    let lo = i;
+    let hi = i;
+    while (lo > 0 && p.tSec - withDist[lo].tSec < half) lo--;
+    while (hi < withDist.length - 1 && withDist[hi].tSec - p.tSec < half) hi++;
+    // At the ends of the workout, widen the other side to keep the full window.
+    while (lo > 0 && withDist[hi].tSec - withDist[lo].tSec < SPEED_WINDOW_SEC) lo--;
+    while (hi < withDist.length - 1 && withDist[hi].tSec - withDist[lo].tSec < SPEED_WINDOW_SEC) hi++;
+    const a = withDist[lo];
+    const b = withDist[hi];
+    const dt = b.tSec - a.tSec;
+    if (dt > 0) p.speedMps = Math.max(0, (b.distanceM - a.distanceM) / dt);
+  }
+}
+
+export function workoutStartMs(w: Workout): number {
+  const rawRec = asRecord(w.raw);
+  const rawStartISO =
+    typeof rawRec?.on === "string"
+      ? rawRec.on
+      : typeof rawRec?.performedDate === "string"
+        ? rawRec.performedDate
+        : undefined;
+  const startISO =
+    (typeof w.startedAtISO === "string" && w.startedAtISO) ||
+    rawStartISO ||
+    new Date().toISOString();
+  const start = new Date(startISO);
+  return Number.isNaN(start.getTime()) ? Date.now() : start.getTime();
+}
+
+// Total climb in metres. Floor counts are converted here so the
+// metres-per-floor setting applies without re-importing.
+export function workoutVerticalM(w: Workout, settings: ExportSettings): number | undefined {
+  return w.verticalM ?? (w.floors != null ? w.floors * settings.metersPerFloor : undefined);
+}
+
+function pointVerticalM(p: SeriesPoint, settings: ExportSettings): number | undefined {
+  return p.verticalM ?? (p.floors != null ? p.floors * settings.metersPerFloor : undefined);
+}
+
+// True when the workout has per-sample data; otherwise the export records are
+// synthesized from the summary metrics.
+export function hasSampledSeries(w: Workout): boolean {
+  return Array.isArray(w.series) && w.series.length > 0;
+}
+
+export function defaultCadenceSpm(w: Workout, opts: WorkoutExportOpts): number | undefined {
+  if (!opts.includeCadenceSeries) return undefined;
+  // cadence in SPM:
+  // - Outdoor run: AvgSpm
+  // - Indoor: derive from Move/Duration when AvgSpm not present
+  const spmFromField = pickCadenceSpm(w.metrics);
+  const move = w.metrics["Move"];
+  const dur = w.metrics["Duration"] ?? w.durationSec ?? 0;
+  return spmFromField ?? (move != null && dur > 0 ? move / (dur / 60) : undefined);
+}
+
+// Record list shared by the FIT and GPX encoders.
+// Series workouts resample HR from the source anchors (see `hr.ts`);
+// summary-only workouts fall back to synthetic 5-second points, without altitude.
+export function buildExportRecords(
+  w: Workout,
+  opts: WorkoutExportOpts,
+  settings: ExportSettings = DEFAULT_EXPORT_SETTINGS,
+): ExportRecord[] {
+  const totalSeconds = Math.max(0, Math.round(w.durationSec ?? 0));
+  const totalDistanceM = opts.includeDistance ? w.distanceM : undefined;
+
+  const avgHr = w.metrics["AvgHr"];
+  const maxHr = w.metrics["MaxHr"];
+  const avgPower = w.metrics["AvgPower"];
+  const defaultCadence = defaultCadenceSpm(w, opts);
+  const defaultWatts = opts.includePowerSeries && avgPower != null ? Math.round(avgPower) : undefined;
+
+  const hasSeries = hasSampledSeries(w);
+  const records: ExportRecord[] = [];
+
+  if (hasSeries) {
+    const sortedSeries = [...(w.series ?? [])].sort((a, b) => a.tSec - b.tSec);
+    const hrAnchors: HrAnchor[] =
+      w.hrAnchors ??
+      sortedSeries
+        .filter((p): p is SeriesPoint & { hr: number } => p.hr != null)
+        .map((p) => ({ tSec: p.tSec, hr: p.hr }));
+    const hrAt = (tSec: number): number | undefined =>
+      opts.includeHrSeries ? hrAtTime(hrAnchors, tSec, settings.hrResampling) : undefined;
+    const seriesTotalSec = Math.max(totalSeconds, sortedSeries[sortedSeries.length - 1]?.tSec ?? 0);
+    const hasSampleDistance = sortedSeries.some((p) => p.distanceM != null);
+    const linearSpeed =
+      totalDistanceM != null && seriesTotalSec > 0 ? totalDistanceM / seriesTotalSec : undefined;
+    let lastDist = 0;
+    let lastAlt: number | undefined;
+    for (const p of sortedSeries) {
+      const t = Math.max(0, Math.round(p.tSec));
+      const hrRaw = hrAt(t);
+      const hr =
+        opts.includeHrSeries && hrRaw != null ? Math.round(hrRaw) : undefined;
+      const cadence =
+        opts.includeCadenceSeries
+          ? p.cadence != null
+            ? Math.round(p.cadence)
+            : defaultCadence != null
+              ? Math.round(defaultCadence)
+              : undefined
+          : undefined;
+      const watts =
+        opts.includePowerSeries
+          ? p.watts != null
+            ? Math.round(p.watts)
+            : defaultWatts
+          : undefined;
+      // Sampled distance keeps the real pace profile; hold the last value over
+      // samples without one so the track never runs backwards.
+      let dist: number;
+      let speed: number | undefined;
+      if (totalDistanceM == null) {
+        dist = 0;
+      } else if (hasSampleDistance) {
+        dist = Math.max(lastDist, p.distanceM ?? lastDist);
+        speed = p.speedMps;
+      } else {
+        dist = seriesTotalSec > 0 ? totalDistanceM * (t / seriesTotalSec) : 0;
+        speed = p.speedMps ?? linearSpeed;
+      }
+      lastDist = dist;
+      // Altitude only follows a sampled climb; it is held between samples and
+      // never invented from the workout total.
+      const alt = opts.includeVerticalAsAltitude ? (pointVerticalM(p, settings) ?? lastAlt) : undefined;
+      lastAlt = alt;
+      records.push({
+        tSec: t,
+        hr,
+        cadence,
+        watts,
+        alt,
+        dist,
+        speed,
+        grade: p.gradePct,
+        strokes: p.strokes,
+        extras: p.extras,
+      });
+    }
+    // Gap-aware mode leaves HR empty on purpose; the other modes fill any
+    // remaining holes so importers draw a continuous line.
+    if (opts.includeHrSeries && settings.hrResampling.mode !== "gap-aware" && records.length > 0) {
+      let firstKnown: number | undefined;
+      for (const r of records) {
+        if (r.hr != null) {
+          firstKnown = r.hr;
+          break;
+        }
+      }
+      const fallbackHr =
+        firstKnown ??
+        (avgHr != null ? Math.round(avgHr) : maxHr != null ? Math.round(maxHr) : undefined);
+      if (fallbackHr != null) {
+        let prev = fallbackHr;
+        for (const r of records) {
+          if (r.hr == null) r.hr = prev;
+          else prev = r.hr;
+        }
+      }
+    }
+  } else {
+    const step = 5;
+    const speed =
+      totalDistanceM != null && totalSeconds > 0 ? totalDistanceM / totalSeconds : undefined;
+    const n =
+      totalSeconds > 0 ? Math.max(2, Math.floor(totalSeconds / step) + 1) : 2;
+    for (let i = 0; i < n; i++) {
+      const t = Math.min(totalSeconds, i * step);
+      const hr =
+        opts.includeHrSeries && (avgHr != null || maxHr != null)
+          ? Math.round(avgHr ?? maxHr)
+          : undefined;
+      const dist =
+        totalDistanceM != null && totalSeconds > 0
+          ? totalDistanceM * (t / totalSeconds)
+          : 0;
+      const cadence = defaultCadence != null ? Math.round(defaultCadence) : undefined;
+      records.push({ tSec: t, hr, cadence, watts: defaultWatts, dist, speed });
+    }
+  }
+
+  return records;
+}
+
+// Climb and drop summed over record-to-record altitude changes; undefined
+// when no record has an altitude.
+export function altitudeChanges(records: ExportRecord[]): { ascentM: number; descentM: number } | undefined {
+  let ascentM = 0;
+  let descentM = 0;
+  let prev: number | undefined;
+  for (const r of records) {
+    if (r.alt == null) continue;
+    if (prev != null) {
+      ascentM += Math.max(0, r.alt - prev);
+      descentM += Math.max(0, prev - r.alt);
+    }
+    prev = r.alt;
+  }
+  return prev != null ? { ascentM, descentM } : undefined;
+}
+
+export function maxRecordSpeed(records: ExportRecord[]): number | undefined {
+  const speeds = records.map((r) => r.speed).filter((x): x is number => x != null);
+  return speeds.length ? Math.max(...speeds) : undefined;
+}
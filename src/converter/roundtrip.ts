@@ -0,0 +1,395 @@
+import FitParser from "fit-file-parser";
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import { workoutToFIT } from "./fit";
+import { workoutToGPX } from "./gpx";
+import { hrZoneHighBpm, timeInHrZones } from "./hrzones";
+import { summarizeWorkout } from "./laps";
+import { buildExportRecords, hasSampledSeries } from "./records";
+import type { ExportRecord } from "./records";
+import { DEFAULT_EXPORT_SETTINGS } from "./settings";
+import { workoutToTCX } from "./tcx";
+import { checkTcxSchema } from "./tcxschema";
+import type { ExportSettings, Workout } from "./types";
+
+// Round trip: encode a workout with the real FIT/TCX/GPX encoders, parse the
+// bytes back with independent parsers and compare against what was meant to
+// be written. Used by the Diagnostics panel and by `scripts/validate-exports.mjs`.
+
+export type RoundTripCheck = {
+  format: "fit" | "tcx" | "gpx";
+  name: string;
+  ok: boolean;
+  detail: string;
+};
+
+// Durations are compared loosely: series can end a few seconds off the
+// summary Duration, and TCX lap times are whole seconds.
+const DURATION_TOLERANCE_SEC = 5;
+const DURATION_TOLERANCE_RATIO = 0.02;
+
+type Expected = {
+  recordCount: number;
+  hrCount: number;
+  lastTSec: number;
+  distanceM: number;
+  calories?: number;
+  durationSec?: number;
+  // Whole-workout average HR, which the FIT session and a single TCX lap must both carry.
+  avgHr?: number;
+  zoneHighBpm?: number[];
+  zoneSeconds?: number[];
+};
+
+function expectedFor(w: Workout, settings: ExportSettings, records: ExportRecord[]): Expected {
+  const opts = w.exportOpts;
+  const zoneHighBpm =
+    hasSampledSeries(w) && records.some((r) => r.hr != null) ? hrZoneHighBpm(settings.athlete) : undefined;
+  const avgHr = summarizeWorkout(w, opts, records).avgHr;
+  return {
+    recordCount: records.length,
+    hrCount: records.filter((r) => r.hr != null).length,
+    lastTSec: records.length ? records[records.length - 1].tSec : 0,
+    distanceM: opts.includeDistance ? (w.distanceM ?? 0) : 0,
+    calories: opts.includeCalories && w.calories != null ? Math.max(0, Math.round(w.calories)) : undefined,
+    durationSec: w.durationSec,
+    avgHr: avgHr != null ? Math.round(avgHr) : undefined,
+    zoneHighBpm,
+    zoneSeconds: zoneHighBpm ? timeInHrZones(records, zoneHighBpm) : undefined,
+  };
+}
+
+function durationMatches(actual: number, expected: number): boolean {
+  return Math.abs(actual - expected) <= Math.max(DURATION_TOLERANCE_SEC, expected * DURATION_TOLERANCE_RATIO);
+}
+
+function isMonotonic(values: number[]): boolean {
+  return values.every((v, i) => i === 0 || v >= values[i - 1]);
+}
+
+function timesDetail(times: number[], missing: number): string {
+  return missing ? `${missing} records without a time` : isMonotonic(times) ? "monotonic" : "time runs backwards";
+}
+
+function asArray<T>(v: T | T[] | undefined): T[] {
+  return v == null ? [] : Array.isArray(v) ? v : [v];
+}
+
+function hrDetail(actual: number | undefined, expected: number | undefined): string {
+  return `${actual ?? "—"} bpm, export records ${expected ?? "—"} bpm`;
+}
+
+type FitSessionLoad = {
+  total_timer_time?: number;
+  max_power?: number;
+  max_cadence?: number;
+  normalized_power?: number;
+  threshold_power?: number;
+  intensity_factor?: number;
+  training_stress_score?: number;
+};
+
+// Session maxima must cover every record; IF and TSS must follow from NP, FTP
+// and the timer time (IF to the file's 0.001, TSS to its 0.1).
+function trainingLoadMismatch(
+  session: FitSessionLoad,
+  records: Array<{ power?: number; cadence?: number }>,
+): string | undefined {
+  const maxOf = (values: Array<number | undefined>) => {
+    const xs = values.filter((v): v is number => typeof v === "number");
+    return xs.length ? Math.max(...xs) : undefined;
+  };
+  const recordPower = maxOf(records.map((r) => r.power));
+  const recordCadence = maxOf(records.map((r) => r.cadence));
+  if (session.max_power != null && recordPower != null && session.max_power < recordPower) {
+    return `max_power ${session.max_power} below record power ${recordPower}`;
+  }
+  if (session.max_cadence != null && recordCadence != null && session.max_cadence < recordCadence) {
+    return `max_cadence ${session.max_cadence} below record cadence ${recordCadence}`;
+  }
+  const { intensity_factor: intensity, normalized_power: np, threshold_power: ftp } = session;
+  if (intensity != null) {
+    if (np == null || !ftp) return "intensity_factor without normalized_power and threshold_power";
+    if (Math.abs(intensity - np / ftp) > 0.01) return `intensity_factor ${intensity}, NP/FTP ${(np / ftp).toFixed(3)}`;
+    const tss = ((session.total_timer_time ?? 0) / 3600) * intensity ** 2 * 100;
+    if (Math.abs((session.training_stress_score ?? NaN) - tss) > 0.5) {
+      return `training_stress_score ${session.training_stress_score ?? "—"}, expected ${tss.toFixed(1)}`;
+    }
+  }
+  return undefined;
+}
+
+function loadDetail(session?: FitSessionLoad): string {
+  if (!session) return "no session";
+  const parts = [
+    session.max_power != null && `max power ${session.max_power} W`,
+    session.max_cadence != null && `max cadence ${session.max_cadence}`,
+    session.normalized_power != null && `NP ${session.normalized_power} W`,
+    session.intensity_factor != null && `IF ${session.intensity_factor}`,
+    session.training_stress_score != null && `TSS ${session.training_stress_score}`,
+  ].filter(Boolean);
+  return parts.length ? parts.join(", ") : "no load metrics";
+}
+
+type FitZoneMessages = {
+  hr_zone?: Array<{ high_bpm?: number }>;
+  time_in_zone?: Array<{ reference_mesg?: number; time_in_hr_zone?: number[] }>;
+};
+
+// FIT message numbers used as time_in_zone.reference_mesg.
+const FIT_LAP_MESG = 19;
+const FIT_SESSION_MESG = 18;
+
+// The session's time in zone must match the export records, the laps must
+// add up to it, and hr_zone must list the same boundaries.
+function hrZoneMismatch(parsed: FitZoneMessages, expected: Expected): string | undefined {
+  const zones = parsed.time_in_zone ?? [];
+  if (!expected.zoneSeconds || !expected.zoneHighBpm) {
+    return zones.length ? `${zones.length} time_in_zone messages without an HR profile` : undefined;
+  }
+  const highBpm = (parsed.hr_zone ?? []).map((z) => z.high_bpm);
+  if (highBpm.join() !== expected.zoneHighBpm.join()) return `hr_zone ${highBpm.join("/")}, expected ${expected.zoneHighBpm.join("/")}`;
+  const session = zones.find((z) => z.reference_mesg === FIT_SESSION_MESG)?.time_in_hr_zone;
+  const close = (a: number[] | undefined, b: number[]) =>
+    a != null && a.length === b.length && a.every((x, i) => Math.abs(x - b[i]) < 0.01);
+  if (!close(session, expected.zoneSeconds)) {
+    return `session time in zone ${session?.join("/") ?? "—"}, expected ${expected.zoneSeconds.join("/")}`;
+  }
+  const lapTotals = expected.zoneSeconds.map((_, i) =>
+    zones
+      .filter((z) => z.reference_mesg === FIT_LAP_MESG)
+      .reduce((acc, z) => acc + (z.time_in_hr_zone?.[i] ?? 0), 0),
+  );
+  return close(lapTotals, expected.zoneSeconds) ? undefined : `lap time in zone adds up to ${lapTotals.join("/")}`;
+}
+
+async function fitChecks(w: Workout, settings: ExportSettings, expected: Expected): Promise<RoundTripCheck[]> {
+  const checks: RoundTripCheck[] = [];
+  const add = (name: string, ok: boolean, detail: string) => checks.push({ format: "fit", name, ok, detail });
+
+  const fit = workoutToFIT(w, w.exportOpts, settings);
+  const parsed = await new FitParser({ force: false, mode: "list" }).parseAsync(fit);
+  const records = parsed.records ?? [];
+  const session = parsed.sessions?.[0];
+  add(
+    "messages",
+    parsed.activity != null && session != null && (parsed.laps?.length ?? 0) > 0,
+    `sessions ${parsed.sessions?.length ?? 0}, laps ${parsed.laps?.length ?? 0}`,
+  );
+  add("record count", records.length === expected.recordCount, `${records.length} of ${expected.recordCount}`);
+
+  // Typed as a string, but the parser returns Date objects.
+  const times = records.map((r) => (r.timestamp != null ? new Date(r.timestamp).getTime() : NaN));
+  const missingTimes = times.filter((t) => Number.isNaN(t)).length;
+  add("timestamps", missingTimes === 0 && isMonotonic(times), timesDetail(times, missingTimes));
+
+  const distances = records.map((r) => r.distance).filter((d): d is number => typeof d === "number");
+  add("distance monotonic", isMonotonic(distances), `${distances.length} records with distance`);
+
+  const hrCount = records.filter((r) => typeof r.heart_rate === "number").length;
+  add("HR coverage", hrCount === expected.hrCount, `${hrCount} of ${expected.hrCount} expected HR records`);
+
+  const totalDistance = session?.total_distance ?? 0;
+  add(
+    "total distance",
+    Math.abs(totalDistance - expected.distanceM) < 0.5,
+    `${totalDistance.toFixed(1)} m, workout ${expected.distanceM.toFixed(1)} m`,
+  );
+  add(
+    "total calories",
+    session?.total_calories === expected.calories,
+    `${session?.total_calories ?? "—"}, workout ${expected.calories ?? "—"}`,
+  );
+
+  add("average HR", session?.avg_heart_rate === expected.avgHr, hrDetail(session?.avg_heart_rate, expected.avgHr));
+
+  const loadMismatch = session ? trainingLoadMismatch(session, records) : undefined;
+  add("training load", loadMismatch == null, loadMismatch ?? loadDetail(session));
+
+  const zoneMismatch = hrZoneMismatch(parsed, expected);
+  add(
+    "HR zones",
+    zoneMismatch == null,
+    zoneMismatch ?? (expected.zoneSeconds ? `${expected.zoneSeconds.length} zones, laps add up` : "no HR profile"),
+  );
+
+  const timerTime = session?.total_timer_time ?? 0;
+  const lapTime = (parsed.laps ?? []).reduce((acc, lap) => acc + (lap.total_timer_time ?? 0), 0);
+  add("lap times", Math.abs(lapTime - timerTime) < 0.01, `laps ${lapTime} s, session ${timerTime} s`);
+  const durationOk =
+    Math.abs(timerTime - Math.max(1, expected.lastTSec)) < 1 &&
+    (expected.durationSec == null || durationMatches(timerTime, expected.durationSec));
+  add(
+    "duration",
+    durationOk,
+    `${timerTime} s, last record ${expected.lastTSec} s, workout ${expected.durationSec ?? "—"} s`,
+  );
+  return checks;
+}
+
+type TcxTrackpoint = {
+  Time?: string;
+  DistanceMeters?: number;
+  HeartRateBpm?: { Value?: number };
+  Extensions?: { "tpx:TPX"?: { "tpx:Watts"?: number } };
+};
+
+type TcxLap = {
+  TotalTimeSeconds?: number;
+  DistanceMeters?: number;
+  Calories?: number;
+  AverageHeartRateBpm?: { Value?: number };
+  MaximumHeartRateBpm?: { Value?: number };
+  Track?: { Trackpoint?: TcxTrackpoint[] } | "";
+  Extensions?: { "tpx:LX"?: { "tpx:AvgWatts"?: number; "tpx:MaxWatts"?: number } };
+};
+
+// Lap averages must lie within the lap's trackpoint values and lap maxima must
+// cover them. Summary-only workouts may lack an average (e.g. only MaxHr is
+// known), so a missing one is not a mismatch. Returns the first mismatch.
+function lapSummaryMismatch(laps: TcxLap[]): string | undefined {
+  for (const [i, lap] of laps.entries()) {
+    const points = lap.Track ? asArray(lap.Track.Trackpoint) : [];
+    const channels: Array<[string, number[], number | undefined, number | undefined]> = [
+      [
+        "HR",
+        points.map((p) => p.HeartRateBpm?.Value).filter((v): v is number => typeof v === "number"),
+        lap.AverageHeartRateBpm?.Value,
+        lap.MaximumHeartRateBpm?.Value,
+      ],
+      [
+        "power",
+        points.map((p) => p.Extensions?.["tpx:TPX"]?.["tpx:Watts"]).filter((v): v is number => typeof v === "number"),
+        lap.Extensions?.["tpx:LX"]?.["tpx:AvgWatts"],
+        lap.Extensions?.["tpx:LX"]?.["tpx:MaxWatts"],
+      ],
+    ];
+    for (const [name, values, avg, max] of channels) {
+      if (!values.length) continue;
+      const lo = Math.min(...values);
+      const hi = Math.max(...values);
+      if (avg != null && (avg < lo || avg > hi)) return `lap ${i + 1}: average ${name} ${avg} outside ${lo}–${hi}`;
+      if (max != null && max < hi) return `lap ${i + 1}: max ${name} ${max} below trackpoint ${hi}`;
+    }
+  }
+  return undefined;
+}
+
+function tcxChecks(w: Workout, settings: ExportSettings, expected: Expected): RoundTripCheck[] {
+  const checks: RoundTripCheck[] = [];
+  const add = (name: string, ok: boolean, detail: string) => checks.push({ format: "tcx", name, ok, detail });
+
+  const xml = workoutToTCX(w, w.exportOpts, settings);
+  const valid = XMLValidator.validate(xml);
+  if (valid !== true) {
+    add("well-formed XML", false, `${valid.err.msg} (line ${valid.err.line})`);
+    return checks;
+  }
+  add("well-formed XML", true, `${xml.length} characters`);
+  const schemaIssues = checkTcxSchema(xml);
+  add(
+    "schema",
+    schemaIssues.length === 0,
+    schemaIssues.length ? schemaIssues.slice(0, 3).join("; ") : "TrainingCenterDatabase v2 order and types",
+  );
+
+  const doc = new XMLParser({ isArray: (name) => name === "Lap" || name === "Trackpoint" }).parse(xml);
+  const laps: TcxLap[] = asArray(doc?.TrainingCenterDatabase?.Activities?.Activity?.Lap);
+  const points = laps.flatMap((lap) => (lap.Track ? asArray(lap.Track.Trackpoint) : []));
+  add("laps", laps.length > 0, `${laps.length} laps`);
+  add("record count", points.length === expected.recordCount, `${points.length} of ${expected.recordCount}`);
+
+  const times = points.map((p) => (p.Time ? new Date(p.Time).getTime() : NaN));
+  const missingTimes = times.filter((t) => Number.isNaN(t)).length;
+  add("timestamps", missingTimes === 0 && isMonotonic(times), timesDetail(times, missingTimes));
+
+  const distances = points.map((p) => p.DistanceMeters).filter((d): d is number => typeof d === "number");
+  add("distance monotonic", isMonotonic(distances), `${distances.length} trackpoints with distance`);
+
+  const hrCount = points.filter((p) => typeof p.HeartRateBpm?.Value === "number").length;
+  add("HR coverage", hrCount === expected.hrCount, `${hrCount} of ${expected.hrCount} expected HR trackpoints`);
+
+  // Lap distances are written to 0.1 m each.
+  const totalDistance = laps.reduce((acc, lap) => acc + (lap.DistanceMeters ?? 0), 0);
+  add(
+    "total distance",
+    Math.abs(totalDistance - expected.distanceM) <= 0.05 * laps.length + 0.05,
+    `${totalDistance.toFixed(1)} m, workout ${expected.distanceM.toFixed(1)} m`,
+  );
+  // Calories is required on TCX laps, so unexported calories are written as 0.
+  const totalCalories = laps.reduce((acc, lap) => acc + (lap.Calories ?? 0), 0);
+  add(
+    "total calories",
+    totalCalories === (expected.calories ?? 0),
+    `${totalCalories}, workout ${expected.calories ?? "—"}`,
+  );
+
+  // With several laps each one has its own average; "lap summaries" covers those.
+  if (laps.length === 1) {
+    const lapHr = laps[0].AverageHeartRateBpm?.Value;
+    add("average HR", lapHr === expected.avgHr, hrDetail(lapHr, expected.avgHr));
+  }
+
+  const lapMismatch = lapSummaryMismatch(laps);
+  add("lap summaries", lapMismatch == null, lapMismatch ?? "HR and power averages/maxima match the trackpoints");
+
+  const totalTime = laps.reduce((acc, lap) => acc + (lap.TotalTimeSeconds ?? 0), 0);
+  const reference = expected.durationSec ?? expected.lastTSec;
+  // Split or not, the laps add up to the same time as a single lap.
+  const lapTimeOk = Math.abs(totalTime - Math.max(0, Math.round(reference))) < 0.01;
+  add("lap times", lapTimeOk, `laps ${totalTime} s, single lap ${Math.max(0, Math.round(reference))} s`);
+  add("duration", durationMatches(totalTime, reference), `${totalTime} s, workout ${reference} s`);
+  return checks;
+}
+
+type GpxTrackpoint = {
+  time?: string;
+  extensions?: { "gpxtpx:TrackPointExtension"?: { "gpxtpx:hr"?: number } };
+};
+
+function gpxChecks(w: Workout, settings: ExportSettings, expected: Expected): RoundTripCheck[] {
+  const checks: RoundTripCheck[] = [];
+  const add = (name: string, ok: boolean, detail: string) => checks.push({ format: "gpx", name, ok, detail });
+
+  const xml = workoutToGPX(w, w.exportOpts, settings);
+  const valid = XMLValidator.validate(xml);
+  if (valid !== true) {
+    add("well-formed XML", false, `${valid.err.msg} (line ${valid.err.line})`);
+    return checks;
+  }
+  add("well-formed XML", true, `${xml.length} characters`);
+
+  const doc = new XMLParser({ isArray: (name) => name === "trkpt" }).parse(xml);
+  const track = doc?.gpx?.trk;
+  // The parser reads numeric text as numbers.
+  const trackName = track?.name != null ? String(track.name) : undefined;
+  add("track", trackName === w.activityName, trackName != null ? `name "${trackName}"` : "no trk");
+  const points: GpxTrackpoint[] = asArray(track?.trkseg?.trkpt);
+  add("record count", points.length === expected.recordCount, `${points.length} of ${expected.recordCount}`);
+
+  const times = points.map((p) => (p.time ? new Date(p.time).getTime() : NaN));
+  const missingTimes = times.filter((t) => Number.isNaN(t)).length;
+  add("timestamps", missingTimes === 0 && isMonotonic(times), timesDetail(times, missingTimes));
+
+  const hrCount = points.filter(
+    (p) => typeof p.extensions?.["gpxtpx:TrackPointExtension"]?.["gpxtpx:hr"] === "number",
+  ).length;
+  add("HR coverage", hrCount === expected.hrCount, `${hrCount} of ${expected.hrCount} expected HR trackpoints`);
+  return checks;
+}
+
+export async function roundTripChecks(
+  w: Workout,
+  settings: ExportSettings = DEFAULT_EXPORT_SETTINGS,
+): Promise<RoundTripCheck[]> {
+  const expected = expectedFor(w, settings, buildExportRecords(w, w.exportOpts, settings));
+  return [
+    ...(await fitChecks(w, settings, expected)),
+    ...tcxChecks(w, settings, expected),
+    ...gpxChecks(w, settings, expected),
+  ];
+}
+
+// One line per check, for the Diagnostics panel and the validation script.
+export function formatRoundTrip(checks: RoundTripCheck[]): string {
+  return checks.map((c) => `${c.ok ? "ok  " : "FAIL"} ${c.format.toUpperCase()} ${c.name}: ${c.detail}`).join("\n");
+}
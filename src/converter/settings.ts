@@ -0,0 +1,16 @@
+import { DEFAULT_HR_MAX_GAP_SEC } from "./hr";
+import { DEFAULT_SPORT_RULES } from "./sport";
+import type { ExportSettings } from "./types";
+
+// Stair machines count floors; a typical storey height turns them into metres.
+export const DEFAULT_METERS_PER_FLOOR = 3;
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  enhancedFitCompatibility: false,
+  lapSplit: { mode: "none", value: 0 },
+  hrResampling: { mode: "linear", maxGapSec: DEFAULT_HR_MAX_GAP_SEC },
+  sportRules: DEFAULT_SPORT_RULES,
+  metersPerFloor: DEFAULT_METERS_PER_FLOOR,
+  fitDeveloperFields: false,
+  athlete: {},
+};
@@ -0,0 +1,95 @@
+import type { FitSport, FitSubSport, SportRule, TcxSport, Workout, WorkoutSport } from "./types";
+
+export const TCX_SPORTS: TcxSport[] = ["Running", "Biking", "Other"];
+
+export const FIT_SPORTS: FitSport[] = [
+  "running",
+  "cycling",
+  "walking",
+  "rowing",
+  "fitness_equipment",
+  "training",
+  "generic",
+];
+
+export const FIT_SUB_SPORTS: FitSubSport[] = [
+  "treadmill",
+  "indoor_cycling",
+  "indoor_hand_cycling",
+  "indoor_walking",
+  "indoor_rowing",
+  "elliptical",
+  "stair_climbing",
+  "strength_training",
+  "cardio_training",
+];
+
+const ROWING: WorkoutSport = { tcx: "Other", fit: "rowing", fitSubSport: "indoor_rowing" };
+const ELLIPTICAL: WorkoutSport = { tcx: "Other", fit: "fitness_equipment", fitSubSport: "elliptical" };
+const STAIRS: WorkoutSport = { tcx: "Other", fit: "fitness_equipment", fitSubSport: "stair_climbing" };
+
+// Technogym equipment names first (Skillrow, Synchro, Vario, Top...), then the
+// generic words the original heuristic used, in its order.
+export const DEFAULT_SPORT_RULES: SportRule[] = [
+  { match: "skillrow|rower|rowing", sport: ROWING },
+  { match: "skillbike|recline|spinning|group cycle", sport: { tcx: "Biking", fit: "cycling", fitSubSport: "indoor_cycling" } },
+  { match: "synchro|vario|elliptical|cross trainer|crosstrainer", sport: ELLIPTICAL },
+  { match: "top excite|upper body|arm ergometer", sport: { tcx: "Other", fit: "cycling", fitSubSport: "indoor_hand_cycling" } },
+  { match: "skillrun|skillmill|treadmill", sport: { tcx: "Running", fit: "running", fitSubSport: "treadmill" } },
+  { match: "run", source: "indoor", sport: { tcx: "Running", fit: "running", fitSubSport: "treadmill" } },
+  { match: "run", sport: { tcx: "Running", fit: "running" } },
+  { match: "walk", source: "indoor", sport: { tcx: "Other", fit: "walking", fitSubSport: "indoor_walking" } },
+  { match: "walk", sport: { tcx: "Other", fit: "walking" } },
+  { match: "cycle|bike|ride", source: "indoor", sport: { tcx: "Biking", fit: "cycling", fitSubSport: "indoor_cycling" } },
+  { match: "cycle|bike|ride", sport: { tcx: "Biking", fit: "cycling" } },
+  // After run/walk/cycle, so "Hill climb run" or "Bike climb" keep their sport.
+  { match: "stair|climber|climb excite", source: "indoor", sport: STAIRS },
+];
+
+export function ruleMatches(rule: SportRule, w: Pick<Workout, "activityName" | "source">): boolean {
+  if (rule.source && rule.source !== w.source) return false;
+  const name = (w.activityName || "").toLowerCase();
+  return rule.match
+    .split("|")
+    .map((m) => m.trim().toLowerCase())
+    .some((m) => m && name.includes(m));
+}
+
+export function detectSport(
+  w: Pick<Workout, "activityName" | "source">,
+  rules: SportRule[] = DEFAULT_SPORT_RULES,
+): WorkoutSport {
+  const rule = rules.find((r) => ruleMatches(r, w));
+  if (rule) return rule.sport;
+  if (w.source === "indoor") return { tcx: "Other", fit: "fitness_equipment" };
+  return { tcx: "Other", fit: "generic" };
+}
+
+// The user's choice from the table, otherwise the first matching rule.
+export function resolveSport(w: Workout, rules: SportRule[] = DEFAULT_SPORT_RULES): WorkoutSport {
+  return w.sport ?? detectSport(w, rules);
+}
+
+export const SPORT_PRESETS: Array<{ label: string; sport: WorkoutSport }> = [
+  { label: "Running", sport: { tcx: "Running", fit: "running" } },
+  { label: "Treadmill running", sport: { tcx: "Running", fit: "running", fitSubSport: "treadmill" } },
+  { label: "Cycling", sport: { tcx: "Biking", fit: "cycling" } },
+  { label: "Indoor cycling", sport: { tcx: "Biking", fit: "cycling", fitSubSport: "indoor_cycling" } },
+  { label: "Upper body ergometer", sport: { tcx: "Other", fit: "cycling", fitSubSport: "indoor_hand_cycling" } },
+  { label: "Walking", sport: { tcx: "Other", fit: "walking" } },
+  { label: "Indoor walking", sport: { tcx: "Other", fit: "walking", fitSubSport: "indoor_walking" } },
+  { label: "Indoor rowing", sport: ROWING },
+  { label: "Elliptical", sport: ELLIPTICAL },
+  { label: "Stair climbing", sport: STAIRS },
+  { label: "Strength training", sport: { tcx: "Other", fit: "training", fitSubSport: "strength_training" } },
+  { label: "Cardio training", sport: { tcx: "Other", fit: "training", fitSubSport: "cardio_training" } },
+  { label: "Fitness equipment", sport: { tcx: "Other", fit: "fitness_equipment" } },
+  { label: "Other", sport: { tcx: "Other", fit: "generic" } },
+];
+
+export function sportLabel(sport: WorkoutSport): string {
+  const preset = SPORT_PRESETS.find(
+    (p) => p.sport.tcx === sport.tcx && p.sport.fit === sport.fit && p.sport.fitSubSport === sport.fitSubSport,
+  );
+  return preset?.label ?? [sport.fit, sport.fitSubSport].filter(Boolean).join(" / ");
+}
@@ -0,0 +1,188 @@
+import { apportionByDuration, lapDurations, splitLaps, summarizeLap, summarizeWorkout } from "./laps";
+import type { LapSummary } from "./laps";
+import { buildExportRecords, workoutStartMs } from "./records";
+import type { ExportRecord } from "./records";
+import { asRecord } from "./parse";
+import { DEFAULT_EXPORT_SETTINGS } from "./settings";
+import { resolveSport } from "./sport";
+import type { ExportSettings, LapSplitMode, Workout, WorkoutExportOpts } from "./types";
+import { el, renderXmlDocument } from "./xml";
+import type { XmlNode } from "./xml";
+
+// Elements are written in the order of the TrainingCenterDatabase v2 and
+// ActivityExtension v2 sequences; src/converter/tcxschema.ts checks it.
+
+const LAP_TRIGGER: Record<LapSplitMode, string> = {
+  none: "Manual",
+  time: "Time",
+  distance: "Distance",
+  power: "Manual",
+  hr: "HeartRate",
+};
+
+const TCX_NAMESPACES = {
+  xmlns: "http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2",
+  "xmlns:xsi": "http://www.w3.org/2001/XMLSchema-instance",
+  "xmlns:tpx": "http://www.garmin.com/xmlschemas/ActivityExtension/v2",
+  "xsi:schemaLocation":
+    "http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2 http://www.garmin.com/xmlschemas/TrainingCenterDatabasev2.xsd",
+};
+
+// HeartRateInBeatsPerMinute_t is an unsignedByte of at least 1.
+function heartRateNode(name: string, bpm?: number): XmlNode | undefined {
+  const value = bpm != null ? Math.round(bpm) : undefined;
+  return value != null && value >= 1 && value <= 255 ? el(name, el("Value", value)) : undefined;
+}
+
+function versionNode(name: string): XmlNode {
+  return el(name, [el("VersionMajor", 1), el("VersionMinor", 0), el("BuildMajor", 0), el("BuildMinor", 0)]);
+}
+
+function trackpointNode(r: ExportRecord, startMs: number): XmlNode {
+  const time = new Date(startMs + r.tSec * 1000).toISOString();
+  // CadenceValue_t stops at 254.
+  const cadence = r.cadence != null ? Math.min(254, Math.round(r.cadence)) : undefined;
+  const watts = r.watts != null ? Math.round(r.watts) : undefined;
+  const tpx = [
+    r.speed != null && el("tpx:Speed", r.speed.toFixed(3)),
+    watts != null && el("tpx:Watts", watts),
+  ].filter(Boolean);
+  return el("Trackpoint", [
+    el("Time", time),
+    r.alt != null && el("AltitudeMeters", r.alt.toFixed(1)),
+    el("DistanceMeters", r.dist.toFixed(1)),
+    heartRateNode("HeartRateBpm", r.hr),
+    cadence != null && el("Cadence", cadence),
+    tpx.length > 0 && el("Extensions", el("tpx:TPX", tpx)),
+  ]);
+}
+
+type TcxLap = {
+  startMs: number;
+  totalSeconds: number;
+  // Undefined when distance is not exported.
+  distanceM?: number;
+  calories: number;
+  trigger: string;
+  records: ExportRecord[];
+  summary: LapSummary;
+};
+
+// Lap cadence is CadenceValue_t (bike/rower); runs report it in the LX
+// extension as AvgRunCadence/MaxRunCadence instead.
+function lapNode(lap: TcxLap, startMs: number, running: boolean): XmlNode {
+  const { summary } = lap;
+  const avgCadence = summary.avgCadence != null ? Math.min(254, Math.round(summary.avgCadence)) : undefined;
+  const maxCadence = summary.maxCadence != null ? Math.min(254, Math.round(summary.maxCadence)) : undefined;
+  const avgSpeed = lap.distanceM != null && lap.totalSeconds > 0 ? lap.distanceM / lap.totalSeconds : undefined;
+  const lx = [
+    avgSpeed != null && el("tpx:AvgSpeed", avgSpeed.toFixed(3)),
+    !running && maxCadence != null && el("tpx:MaxBikeCadence", maxCadence),
+    running && avgCadence != null && el("tpx:AvgRunCadence", avgCadence),
+    running && maxCadence != null && el("tpx:MaxRunCadence", maxCadence),
+    summary.avgPower != null && el("tpx:AvgWatts", Math.round(summary.avgPower)),
+    summary.maxPower != null && el("tpx:MaxWatts", Math.round(summary.maxPower)),
+  ].filter(Boolean);
+  return el("Lap", [
+    el("TotalTimeSeconds", lap.totalSeconds),
+    el("DistanceMeters", (lap.distanceM ?? 0).toFixed(1)),
+    lap.distanceM != null && summary.maxSpeed != null && el("MaximumSpeed", summary.maxSpeed.toFixed(3)),
+    el("Calories", lap.calories),
+    heartRateNode("AverageHeartRateBpm", summary.avgHr),
+    heartRateNode("MaximumHeartRateBpm", summary.maxHr),
+    el("Intensity", "Active"),
+    !running && avgCadence != null && el("Cadence", avgCadence),
+    el("TriggerMethod", lap.trigger),
+    lap.records.length > 0 && el("Track", lap.records.map((r) => trackpointNode(r, startMs))),
+    lx.length > 0 && el("Extensions", el("tpx:LX", lx)),
+  ], { StartTime: new Date(lap.startMs).toISOString() });
+}
+
+// Creator is the recording device: the Technogym machine when the export
+// names it. Author is this converter.
+function creatorNode(w: Workout): XmlNode {
+  const equipmentType = asRecord(w.raw)?.equipmentType;
+  const name = typeof equipmentType === "string" && equipmentType.trim()
+    ? `Technogym ${equipmentType.trim()}`
+    : "Technogym";
+  return el("Creator", [el("Name", name), el("UnitId", 0), el("ProductID", 0), versionNode("Version")], {
+    "xsi:type": "Device_t",
+  });
+}
+
+function authorNode(): XmlNode {
+  return el("Author", [
+    el("Name", "mywellness2tcx"),
+    el("Build", versionNode("Version")),
+    el("LangID", "en"),
+    el("PartNumber", "000-00000-00"),
+  ], { "xsi:type": "Application_t" });
+}
+
+export function workoutToTCX(
+  w: Workout,
+  opts: WorkoutExportOpts,
+  settings: ExportSettings = DEFAULT_EXPORT_SETTINGS,
+): string {
+  const startMs = workoutStartMs(w);
+  const startForTCX = new Date(startMs).toISOString();
+  const sport = resolveSport(w, settings.sportRules).tcx;
+
+  // Calories is required on every lap; 0 stands for "not exported".
+  const calories = opts.includeCalories && w.calories != null ? Math.max(0, Math.round(w.calories)) : undefined;
+  const totalDistanceM = opts.includeDistance ? w.distanceM : undefined;
+
+  // Approximate series (only if user opts in)
+  const records = buildExportRecords(w, opts, settings);
+  const segments = splitLaps(records, settings.lapSplit);
+  // Laps add up to the summary Duration, or to the last record without one.
+  const lastTSec = records.length ? records[records.length - 1].tSec : 0;
+  const totalSeconds = Math.max(0, Math.round(w.durationSec ?? lastTSec));
+
+  let laps: TcxLap[];
+  if (segments.length <= 1) {
+    laps = [{
+      startMs,
+      totalSeconds,
+      distanceM: totalDistanceM,
+      calories: calories ?? 0,
+      trigger: "Manual",
+      records,
+      summary: summarizeWorkout(w, opts, records),
+    }];
+  } else {
+    const times = lapDurations(segments, totalSeconds);
+    const summaries = segments.map((seg, i) => ({ ...summarizeLap(seg, segments[i + 1]), durationSec: times[i] }));
+    const lapCalories = calories != null ? apportionByDuration(calories, summaries) : undefined;
+    laps = segments.map((seg, i) => ({
+      startMs: startMs + (i === 0 ? 0 : seg.startSec) * 1000,
+      totalSeconds: summaries[i].durationSec,
+      distanceM: totalDistanceM != null ? summaries[i].distanceM : undefined,
+      calories: lapCalories?.[i] ?? 0,
+      trigger: LAP_TRIGGER[settings.lapSplit.mode],
+      records: seg.records,
+      summary: summaries[i],
+    }));
+  }
+
+  const metricsNote =
+    opts.includeMetricsInNotes
+      ? `Mywellness metrics: ${Object.entries(w.metrics)
+        .map(([k, v]) => `${k}=${v}`)
+        .join(", ")}`
+      : undefined;
+  const notes =
+    [w.notes?.trim(), metricsNote].filter(Boolean).join("\n") || "Generated from Mywellness export.";
+
+  return renderXmlDocument(
+    el("TrainingCenterDatabase", [
+      el("Activities", el("Activity", [
+        el("Id", startForTCX),
+        ...laps.map((lap) => lapNode(lap, startMs, sport === "Running")),
+        el("Notes", notes),
+        creatorNode(w),
+      ], { Sport: sport })),
+      authorNode(),
+    ], TCX_NAMESPACES),
+  );
+}
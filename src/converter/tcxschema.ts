@@ -0,0 +1,222 @@
+import { XMLParser } from "fast-xml-parser";
+
+// Offline conformance check for the TCX subset this app writes: the element
+// sequences and simple types of TrainingCenterDatabase v2 and ActivityExtension
+// v2, transcribed from the Garmin XSDs. Not a general XSD validator — elements
+// the encoder never writes (Courses, Workouts, Position, ...) are only checked
+// for their place in the parent's sequence.
+
+const TCX_NAMESPACE = "http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2";
+const TPX_NAMESPACE = "http://www.garmin.com/xmlschemas/ActivityExtension/v2";
+
+type Particle = { name: string; min: number; max: number };
+
+const one = (name: string): Particle => ({ name, min: 1, max: 1 });
+const opt = (name: string): Particle => ({ name, min: 0, max: 1 });
+const many = (name: string, min = 0): Particle => ({ name, min, max: Infinity });
+
+const VERSION = [one("VersionMajor"), one("VersionMinor"), opt("BuildMajor"), opt("BuildMinor")];
+const HEART_RATE = [one("Value")];
+
+// Content models keyed by element name. The TCX subset never reuses a name
+// for two different complex types, so the parent's name is enough context.
+const SEQUENCES: Record<string, Particle[]> = {
+  TrainingCenterDatabase: [
+    opt("Folders"), opt("Activities"), opt("Workouts"), opt("Courses"), opt("Author"), opt("Extensions"),
+  ],
+  Activities: [many("Activity"), many("MultiSportSession")],
+  Activity: [one("Id"), many("Lap", 1), opt("Notes"), opt("Training"), opt("Creator"), opt("Extensions")],
+  Lap: [
+    one("TotalTimeSeconds"), one("DistanceMeters"), opt("MaximumSpeed"), one("Calories"),
+    opt("AverageHeartRateBpm"), opt("MaximumHeartRateBpm"), one("Intensity"), opt("Cadence"),
+    one("TriggerMethod"), many("Track"), opt("Notes"), opt("Extensions"),
+  ],
+  Track: [many("Trackpoint", 1)],
+  Trackpoint: [
+    one("Time"), opt("Position"), opt("AltitudeMeters"), opt("DistanceMeters"), opt("HeartRateBpm"),
+    opt("Cadence"), opt("SensorState"), opt("Extensions"),
+  ],
+  HeartRateBpm: HEART_RATE,
+  AverageHeartRateBpm: HEART_RATE,
+  MaximumHeartRateBpm: HEART_RATE,
+  // Creator as Device_t, Author as Application_t (checked via xsi:type below).
+  Creator: [one("Name"), one("UnitId"), one("ProductID"), one("Version")],
+  Author: [one("Name"), one("Build"), one("LangID"), one("PartNumber")],
+  Build: [one("Version"), opt("Type"), opt("Time"), opt("Builder")],
+  Version: VERSION,
+  "tpx:TPX": [opt("tpx:Speed"), opt("tpx:RunCadence"), opt("tpx:Watts"), opt("tpx:Extensions")],
+  "tpx:LX": [
+    opt("tpx:AvgSpeed"), opt("tpx:MaxBikeCadence"), opt("tpx:AvgRunCadence"), opt("tpx:MaxRunCadence"),
+    opt("tpx:Steps"), opt("tpx:AvgWatts"), opt("tpx:MaxWatts"), opt("tpx:Extensions"),
+  ],
+};
+
+const XSI_TYPES: Record<string, string> = { Creator: "Device_t", Author: "Application_t" };
+
+const DATE_TIME = /^-?\d{4,}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/;
+const DOUBLE = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+const UNSIGNED = /^\+?\d+$/;
+
+function unsigned(max: number, min = 0) {
+  return (v: string) => UNSIGNED.test(v) && Number(v) >= min && Number(v) <= max;
+}
+function oneOf(...values: string[]) {
+  return (v: string) => values.includes(v);
+}
+const isDouble = (v: string) => DOUBLE.test(v);
+const isDateTime = (v: string) => DATE_TIME.test(v);
+const nonNegativeDouble = (v: string) => isDouble(v) && Number(v) >= 0;
+
+// Simple-type content by element name (XSD type in the comment where it is
+// not obvious).
+const TEXT_TYPES: Record<string, (v: string) => boolean> = {
+  Id: isDateTime,
+  Time: isDateTime,
+  TotalTimeSeconds: isDouble,
+  DistanceMeters: isDouble,
+  AltitudeMeters: isDouble,
+  MaximumSpeed: isDouble,
+  Calories: unsigned(65535),
+  Value: unsigned(255, 1), // HeartRateInBeatsPerMinute_t
+  Cadence: unsigned(254), // CadenceValue_t
+  Intensity: oneOf("Active", "Resting"),
+  TriggerMethod: oneOf("Manual", "Distance", "Location", "Time", "HeartRate"),
+  SensorState: oneOf("Present", "Absent"),
+  UnitId: unsigned(4294967295),
+  ProductID: unsigned(65535),
+  VersionMajor: unsigned(65535),
+  VersionMinor: unsigned(65535),
+  BuildMajor: unsigned(65535),
+  BuildMinor: unsigned(65535),
+  LangID: (v) => /^[A-Za-z]{2}$/.test(v),
+  PartNumber: (v) => /^[A-Z\d]{3}-[A-Z\d]{5}-[A-Z\d]{2}$/.test(v),
+  "tpx:Speed": nonNegativeDouble,
+  "tpx:AvgSpeed": nonNegativeDouble,
+  "tpx:RunCadence": unsigned(254),
+  "tpx:MaxBikeCadence": unsigned(254),
+  "tpx:AvgRunCadence": unsigned(254),
+  "tpx:MaxRunCadence": unsigned(254),
+  "tpx:Steps": unsigned(65535),
+  "tpx:Watts": unsigned(65535),
+  "tpx:AvgWatts": unsigned(65535),
+  "tpx:MaxWatts": unsigned(65535),
+};
+
+const REQUIRED_ATTRIBUTES: Record<string, Record<string, (v: string) => boolean>> = {
+  Activity: { Sport: oneOf("Running", "Biking", "Other") },
+  Lap: { StartTime: isDateTime },
+};
+
+// fast-xml-parser's preserveOrder output: one object per node, the element
+// name as the only key besides ":@" (attributes); text nodes use "#text".
+type OrderedNode = Record<string, unknown> & { ":@"?: Record<string, string> };
+
+function nodeName(node: OrderedNode): string {
+  return Object.keys(node).find((k) => k !== ":@") ?? "";
+}
+
+function nodeChildren(node: OrderedNode): OrderedNode[] {
+  const children = node[nodeName(node)];
+  return Array.isArray(children) ? (children as OrderedNode[]) : [];
+}
+
+function nodeText(node: OrderedNode): string {
+  return nodeChildren(node)
+    .filter((c) => nodeName(c) === "#text")
+    .map((c) => String(c["#text"]))
+    .join("")
+    .trim();
+}
+
+function checkSequence(path: string, names: string[], sequence: Particle[], issues: string[]): void {
+  let i = 0;
+  for (const particle of sequence) {
+    let count = 0;
+    while (i < names.length && names[i] === particle.name && count < particle.max) {
+      i++;
+      count++;
+    }
+    if (count < particle.min) issues.push(`${path}: missing ${particle.name}`);
+  }
+  if (i < names.length) {
+    const allowed = sequence.some((p) => p.name === names[i]);
+    issues.push(
+      allowed
+        ? `${path}: ${names[i]} out of order (expected ${sequence.map((p) => p.name).join(", ")})`
+        : `${path}: unexpected element ${names[i]}`,
+    );
+  }
+}
+
+function checkNode(node: OrderedNode, path: string, issues: string[]): void {
+  const name = nodeName(node);
+  const attrs = node[":@"] ?? {};
+  const children = nodeChildren(node);
+  const elements = children.filter((c) => nodeName(c) !== "#text");
+
+  for (const [attr, valid] of Object.entries(REQUIRED_ATTRIBUTES[name] ?? {})) {
+    const value = attrs[attr];
+    if (value == null) issues.push(`${path}: missing attribute ${attr}`);
+    else if (!valid(value)) issues.push(`${path}: invalid ${attr} "${value}"`);
+  }
+  const xsiType = XSI_TYPES[name];
+  if (xsiType && attrs["xsi:type"] !== xsiType) {
+    issues.push(`${path}: expected xsi:type="${xsiType}", got ${attrs["xsi:type"] ?? "none"}`);
+  }
+
+  // Extensions are lax wildcards; only the ActivityExtension children are known.
+  if (name === "Extensions" || name === "tpx:Extensions") {
+    elements.forEach((c) => checkNode(c, `${path}/${nodeName(c)}`, issues));
+    return;
+  }
+
+  const sequence = SEQUENCES[name];
+  if (sequence) {
+    if (nodeText(node)) issues.push(`${path}: unexpected text`);
+    checkSequence(path, elements.map(nodeName), sequence, issues);
+    const seen = new Map<string, number>();
+    for (const c of elements) {
+      const childName = nodeName(c);
+      const index = seen.get(childName) ?? 0;
+      seen.set(childName, index + 1);
+      checkNode(c, `${path}/${childName}[${index}]`, issues);
+    }
+    return;
+  }
+
+  const textType = TEXT_TYPES[name];
+  if (textType) {
+    if (elements.length) issues.push(`${path}: unexpected child element ${nodeName(elements[0])}`);
+    const text = nodeText(node);
+    if (!textType(text)) issues.push(`${path}: invalid value "${text}"`);
+  }
+}
+
+// Returns one message per violation; an empty list means the document fits
+// the schema subset above.
+export function checkTcxSchema(xml: string): string[] {
+  const parsed = new XMLParser({
+    preserveOrder: true,
+    ignoreAttributes: false,
+    attributeNamePrefix: "",
+    parseTagValue: false,
+    parseAttributeValue: false,
+    ignoreDeclaration: true,
+    trimValues: false,
+  }).parse(xml) as OrderedNode[];
+
+  const roots = parsed.filter((n) => !["#text", "?xml"].includes(nodeName(n)));
+  if (roots.length !== 1 || nodeName(roots[0]) !== "TrainingCenterDatabase") {
+    return ["root element must be TrainingCenterDatabase"];
+  }
+  const root = roots[0];
+  const issues: string[] = [];
+  const attrs = root[":@"] ?? {};
+  if (attrs.xmlns !== TCX_NAMESPACE) issues.push(`TrainingCenterDatabase: default namespace must be ${TCX_NAMESPACE}`);
+  if (/<tpx:/.test(xml) && attrs["xmlns:tpx"] !== TPX_NAMESPACE) {
+    issues.push(`TrainingCenterDatabase: tpx prefix must be bound to ${TPX_NAMESPACE}`);
+  }
+  if (/\sxsi:/.test(xml) && !attrs["xmlns:xsi"]) issues.push("TrainingCenterDatabase: xsi prefix is not declared");
+  checkNode(root, "TrainingCenterDatabase", issues);
+  return issues;
+}
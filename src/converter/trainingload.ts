@@ -0,0 +1,64 @@
+import type { ExportRecord } from "./records";
+import type { AthleteProfile } from "./types";
+
+// Coggan's training-load metrics. Normalized power needs a sampled power
+// series; TSS falls back to an HR-based estimate (hrTSS) when there is no power
+// or no FTP but a threshold HR is set.
+
+// Normalized power smooths 1 Hz power over a 30 s rolling window.
+const NP_WINDOW_SEC = 30;
+
+export type TrainingLoad = {
+  normalizedPower?: number;
+  intensityFactor?: number;
+  trainingStressScore?: number;
+};
+
+// Records are a few seconds apart; each power value is held until the next
+// record, and the last one counts for a single second.
+function powerPerSecond(records: ExportRecord[]): number[] {
+  const out: number[] = [];
+  records.forEach((r, i) => {
+    if (r.watts == null) return;
+    const next = records[i + 1];
+    const seconds = next ? Math.max(0, Math.round(next.tSec - r.tSec)) : 1;
+    for (let s = 0; s < seconds; s++) out.push(r.watts);
+  });
+  return out;
+}
+
+export function normalizedPower(records: ExportRecord[]): number | undefined {
+  const power = powerPerSecond(records);
+  if (power.length < NP_WINDOW_SEC) return undefined;
+  let windowSum = 0;
+  let fourthPowerSum = 0;
+  let count = 0;
+  power.forEach((watts, i) => {
+    windowSum += watts;
+    if (i >= NP_WINDOW_SEC) windowSum -= power[i - NP_WINDOW_SEC];
+    if (i >= NP_WINDOW_SEC - 1) {
+      fourthPowerSum += (windowSum / NP_WINDOW_SEC) ** 4;
+      count += 1;
+    }
+  });
+  return (fourthPowerSum / count) ** 0.25;
+}
+
+// `records` should only hold sampled data: the synthetic records of a
+// summary-only workout are flat and would make NP equal the average.
+export function trainingLoad(
+  records: ExportRecord[],
+  durationSec: number,
+  avgHr: number | undefined,
+  athlete: AthleteProfile,
+): TrainingLoad {
+  const np = normalizedPower(records);
+  const hours = Math.max(0, durationSec) / 3600;
+  if (np != null && athlete.ftpW) {
+    const intensityFactor = np / athlete.ftpW;
+    return { normalizedPower: np, intensityFactor, trainingStressScore: hours * intensityFactor ** 2 * 100 };
+  }
+  const hrTss =
+    avgHr != null && athlete.thresholdHr ? hours * (avgHr / athlete.thresholdHr) ** 2 * 100 : undefined;
+  return { normalizedPower: np, trainingStressScore: hrTss };
+}
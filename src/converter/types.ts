@@ -0,0 +1,157 @@
+export type WorkoutExportOpts = {
+  includeHrSeries: boolean;
+  includeCadenceSeries: boolean;
+  includePowerSeries: boolean;
+  includeMetricsInNotes: boolean;
+  includeCalories: boolean;
+  includeDistance: boolean;
+  includeVerticalAsAltitude: boolean;
+};
+
+export type Workout = {
+  uid: string;
+  source: "indoor" | "outdoor";
+  id: string;
+  startedAtISO?: string;
+  startedAtDisplay: string;
+  // Pasted JSON only: calendar date from the payload (YYYY-MM-DD) plus the
+  // user-supplied time of day (HH:MM[:SS]) in `startTimeZone` (IANA).
+  startDate?: string;
+  startTime?: string;
+  startTimeZone?: string;
+  activityName: string;
+  // User edits from the table; when unset, sport is detected from the name.
+  sport?: WorkoutSport;
+  notes?: string;
+
+  durationSec?: number;
+  calories?: number;
+  distanceM?: number;
+  // Mywellness exports use different keys:
+  // - outdoor: "Elevation" is vertical metres
+  // - indoor stair: "Floors" is a floor count, converted with
+  //   `ExportSettings.metersPerFloor` at export time; "Move" is the step count
+  verticalM?: number;
+  floors?: number;
+  steps?: number;
+  cadenceSpm?: number;
+  // Rowers: total stroke count. Their cadence is the stroke rate (strokes/min).
+  strokes?: number;
+
+  exportOpts: WorkoutExportOpts;
+
+  // schema-inspector
+  metrics: Record<string, number>;
+  metricKeys: string[];
+  series?: SeriesPoint[];
+  // Sample columns with no standard channel; values are in `SeriesPoint.extras`.
+  extraChannels?: ExtraChannel[];
+  // Source HR readings, sorted by time; series HR is resampled from these.
+  hrAnchors?: HrAnchor[];
+
+  raw: unknown;
+};
+
+export type SeriesPoint = {
+  tSec: number;
+  hr?: number;
+  watts?: number;
+  cadence?: number;
+  // Cumulative climb, in metres or (stair machines) in floors.
+  verticalM?: number;
+  floors?: number;
+  // Cumulative distance from the sample itself. Speed comes from a speed
+  // column when the machine reports one, otherwise it is derived from distance.
+  distanceM?: number;
+  speedMps?: number;
+  gradePct?: number;
+  // Rowers: cumulative stroke count and the 500 m split in seconds. Without a
+  // speed column, speed is derived from the split.
+  strokes?: number;
+  splitSec?: number;
+  // Unmapped descriptor columns, keyed by descriptor name.
+  extras?: Record<string, number>;
+};
+
+export type ExtraChannel = {
+  name: string;
+  unit?: string;
+};
+
+export type HrAnchor = {
+  tSec: number;
+  hr: number;
+};
+
+export type ExportFormat = "tcx" | "fit" | "gpx";
+
+export type TcxSport = "Running" | "Biking" | "Other";
+
+// The FIT sport/sub_sport values this app writes (a subset of the FIT profile).
+export type FitSport = "running" | "cycling" | "walking" | "rowing" | "fitness_equipment" | "training" | "generic";
+export type FitSubSport =
+  | "treadmill"
+  | "indoor_cycling"
+  | "indoor_hand_cycling"
+  | "indoor_walking"
+  | "indoor_rowing"
+  | "elliptical"
+  | "stair_climbing"
+  | "strength_training"
+  | "cardio_training";
+
+export type WorkoutSport = {
+  tcx: TcxSport;
+  fit: FitSport;
+  fitSubSport?: FitSubSport;
+};
+
+// Maps activity names to a sport. `match` is a case-insensitive substring;
+// several alternatives can be separated with "|". The first matching rule wins.
+export type SportRule = {
+  match: string;
+  source?: Workout["source"];
+  sport: WorkoutSport;
+};
+
+// "time" splits every `value` minutes, "distance" every `value` metres, and
+// "power"/"hr" start a new lap when the level steps by at least `value` W/bpm.
+export type LapSplitMode = "none" | "time" | "distance" | "power" | "hr";
+
+export type LapSplitRule = {
+  mode: LapSplitMode;
+  value: number;
+};
+
+export type HrResampleMode = "linear" | "hold" | "gap-aware";
+
+export type HrResampling = {
+  mode: HrResampleMode;
+  // Only used by "gap-aware": longest span between anchors that is filled.
+  maxGapSec: number;
+};
+
+export type HrZoneMethod = "percent-max" | "karvonen";
+
+// Athlete thresholds for training-load metrics and HR zones; unset values skip
+// the metrics that need them.
+export type AthleteProfile = {
+  ftpW?: number;
+  thresholdHr?: number;
+  maxHr?: number;
+  restingHr?: number;
+  // Zone bounds are percentages of max HR, or of HR reserve for Karvonen.
+  hrZoneMethod?: HrZoneMethod;
+  hrZoneBoundsPct?: number[];
+};
+
+export type ExportSettings = {
+  enhancedFitCompatibility: boolean;
+  lapSplit: LapSplitRule;
+  hrResampling: HrResampling;
+  sportRules: SportRule[];
+  metersPerFloor: number;
+  // FIT only: write metrics and extra sample columns as developer fields.
+  fitDeveloperFields: boolean;
+  athlete: AthleteProfile;
+};
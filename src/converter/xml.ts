@@ -0,0 +1,50 @@
+import { escapeXml } from "./format";
+
+// Minimal XML element tree for the TCX and GPX encoders. Text and attribute values are
+// escaped when rendered, so callers never build markup by hand.
+
+export type XmlAttrs = Record<string, string | number | undefined>;
+
+export type XmlNode = {
+  name: string;
+  attrs: XmlAttrs;
+  children: XmlChild[];
+};
+
+// null/undefined/false children are dropped, so optional elements can be
+// written inline as `value != null && el(...)`.
+export type XmlChild = XmlNode | string | number | null | undefined | false;
+
+export function el(name: string, content?: XmlChild | XmlChild[], attrs: XmlAttrs = {}): XmlNode {
+  return { name, attrs, children: Array.isArray(content) ? content : [content] };
+}
+
+function renderAttrs(attrs: XmlAttrs): string {
+  return Object.entries(attrs)
+    .filter(([, v]) => v != null)
+    .map(([k, v]) => ` ${k}="${escapeXml(String(v))}"`)
+    .join("");
+}
+
+function renderNode(node: XmlNode, indent: string, out: string[]): void {
+  const children = node.children.filter((c): c is XmlNode | string | number => c != null && c !== false);
+  const open = `${indent}<${node.name}${renderAttrs(node.attrs)}`;
+  if (!children.length) {
+    out.push(`${open}/>`);
+  } else if (children.every((c) => typeof c !== "object")) {
+    out.push(`${open}>${children.map((c) => escapeXml(String(c))).join("")}</${node.name}>`);
+  } else {
+    out.push(`${open}>`);
+    for (const c of children) {
+      if (typeof c === "object") renderNode(c, `${indent}  `, out);
+      else out.push(`${indent}  ${escapeXml(String(c))}`);
+    }
+    out.push(`${indent}</${node.name}>`);
+  }
+}
+
+export function renderXmlDocument(root: XmlNode): string {
+  const out = [`<?xml version="1.0" encoding="UTF-8"?>`];
+  renderNode(root, "", out);
+  return out.join("\n");
+}
@@ -0,0 +1,81 @@
+import type { ExportFormat, Workout } from "./converter/types";
+
+// Local record of which workouts were already exported, so a fresh monthly
+// ZIP can be converted without re-exporting years of history.
+
+const STORAGE_KEY = "mywellness2tcx.exportLedger";
+const LEDGER_VERSION = 1;
+
+export type LedgerEntry = {
+  id: string;
+  startedAtISO?: string;
+  exportedAtISO: string;
+  format: ExportFormat;
+};
+
+export type ExportLedger = Record<string, LedgerEntry>;
+
+// Keyed by MyWellness id plus start time; changing a pasted workout's start
+// time therefore makes it "new" again.
+export function ledgerKey(w: Pick<Workout, "id" | "startedAtISO">): string {
+  return `${w.id}@${w.startedAtISO ?? ""}`;
+}
+
+export function loadLedger(): ExportLedger {
+  try {
+    const text = localStorage.getItem(STORAGE_KEY);
+    return text ? parseLedger(text) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveLedger(ledger: ExportLedger) {
+  localStorage.setItem(STORAGE_KEY, serializeLedger(ledger));
+}
+
+export function recordExports(ledger: ExportLedger, ws: Workout[], format: ExportFormat): ExportLedger {
+  const exportedAtISO = new Date().toISOString();
+  const next = { ...ledger };
+  for (const w of ws) {
+    next[ledgerKey(w)] = { id: w.id, startedAtISO: w.startedAtISO, exportedAtISO, format };
+  }
+  return next;
+}
+
+export function mergeLedgers(a: ExportLedger, b: ExportLedger): ExportLedger {
+  const out = { ...a };
+  for (const [key, entry] of Object.entries(b)) {
+    const existing = out[key];
+    if (!existing || existing.exportedAtISO < entry.exportedAtISO) out[key] = entry;
+  }
+  return out;
+}
+
+export function serializeLedger(ledger: ExportLedger): string {
+  return JSON.stringify({ version: LEDGER_VERSION, entries: Object.values(ledger) }, null, 2);
+}
+
+export function parseLedger(text: string): ExportLedger {
+  const parsed: unknown = JSON.parse(text);
+  const entries =
+    parsed && typeof parsed === "object" && "entries" in parsed ? (parsed as { entries: unknown }).entries : undefined;
+  if (!Array.isArray(entries)) {
+    throw new Error("Not an export ledger file (missing `entries`).");
+  }
+
+  const ledger: ExportLedger = {};
+  for (const e of entries) {
+    if (!e || typeof e !== "object") continue;
+    const { id, startedAtISO, exportedAtISO, format } = e as Record<string, unknown>;
+    if (typeof id !== "string" || typeof exportedAtISO !== "string") continue;
+    const entry: LedgerEntry = {
+      id,
+      startedAtISO: typeof startedAtISO === "string" ? startedAtISO : undefined,
+      exportedAtISO,
+      format: format === "fit" || format === "gpx" ? format : "tcx",
+    };
+    ledger[ledgerKey(entry)] = entry;
+  }
+  return ledger;
+}
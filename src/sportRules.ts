@@ -0,0 +1,38 @@
+import { FIT_SPORTS, FIT_SUB_SPORTS, TCX_SPORTS } from "./converter/sport";
+import type { FitSport, FitSubSport, SportRule, TcxSport } from "./converter/types";
+
+// User sport rules, checked before the built-in defaults and kept in localStorage.
+
+const STORAGE_KEY = "mywellness2tcx.sportRules";
+
+function parseRule(value: unknown): SportRule | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const { match, source, sport } = value as Record<string, unknown>;
+  if (typeof match !== "string" || !match.trim() || !sport || typeof sport !== "object") return undefined;
+  const { tcx, fit, fitSubSport } = sport as Record<string, unknown>;
+  if (!TCX_SPORTS.includes(tcx as TcxSport) || !FIT_SPORTS.includes(fit as FitSport)) return undefined;
+  if (fitSubSport != null && !FIT_SUB_SPORTS.includes(fitSubSport as FitSubSport)) return undefined;
+  return {
+    match,
+    source: source === "indoor" || source === "outdoor" ? source : undefined,
+    sport: {
+      tcx: tcx as TcxSport,
+      fit: fit as FitSport,
+      fitSubSport: fitSubSport as FitSubSport | undefined,
+    },
+  };
+}
+
+export function loadUserSportRules(): SportRule[] {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(parseRule).filter((r): r is SportRule => r != null);
+  } catch {
+    return [];
+  }
+}
+
+export function saveUserSportRules(rules: SportRule[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+}
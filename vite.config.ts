@@ -2,6 +2,8 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
-})
+  // The SSR build is the CLI (`npm run build:cli`); public/ is site content.
+  publicDir: isSsrBuild ? false : 'public',
+}))